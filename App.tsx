@@ -1,19 +1,144 @@
-import React, { useState, useRef, ChangeEvent } from 'react';
-import { Upload, Play, Pause, Music, RotateCcw } from 'lucide-react';
+import React, { useState, useRef, useEffect, useSyncExternalStore, ChangeEvent } from 'react';
+import { Upload, Play, Pause, Music, FileAudio, RotateCcw, Mic, MonitorSpeaker, Snowflake, Sparkles, Camera, CameraOff, Hand, SkipBack, SkipForward, ListMusic, Film, CircleDot, Sun, AudioWaveform, Dices, SlidersHorizontal, SlidersVertical, Orbit, Wind, Piano, RadioTower } from 'lucide-react';
 import Visualizer from './components/Visualizer';
+import PsychedelicVisualizer from './components/PsychedelicVisualizer';
+import SeekBar from './components/SeekBar';
+import Playlist from './components/Playlist';
+import ExportPanel from './components/ExportPanel';
+import SettingsPanel from './components/SettingsPanel';
+import GesturePanel from './components/GesturePanel';
+import AudioChainPanel from './components/AudioChainPanel';
+import MidiPanel from './components/MidiPanel';
+import { AudioChain, createAudioChain, loadAudioChainSettings, saveAudioChainSettings } from './utils/audioChain';
+import { LiveInput, listAudioInputs, startLiveInput } from './utils/liveInput';
+import { StreamStatus, StreamingPlayer, createStreamingPlayer } from './utils/streamingPlayer';
+import { TabCapture, describeCaptureError, startTabCapture } from './utils/tabCapture';
+import { MidiInput, createMidiInput, describeMidiError, requestMidiAccess } from './utils/midiInput';
+import { RemoteControl, RemoteStatus, REMOTE_BRIDGE_URL, createRemoteControl, loadRemoteEnabled, saveRemoteEnabled } from './utils/remoteControl';
+import { emitTrigger } from './utils/visualizerBus';
+import { getVisualConfig, loadVisualPresets, parseVisualConfig, setVisualConfig } from './utils/visualConfig';
+import {
+  PlaylistTrack,
+  RepeatMode,
+  DecodeCache,
+  createTracks,
+  createUrlTrack,
+  collectDroppedFiles,
+  moveTrack,
+  buildPlayOrder,
+  getAdjacentTrackId,
+  createDecodeCache
+} from './utils/playlist';
+import { analyzeTrack } from './utils/trackAnalysis';
+import { seedFromFile, seedFromString, formatSeed, parseSeed } from './utils/random';
+import { GestureDelegate, loadGestureDelegate, saveGestureDelegate } from './utils/gestureService';
+import { GESTURE_ACTION_LABELS, GESTURE_LABELS, getGestureBindings, isGestureName, subscribeGestureBindings } from './utils/gestureBindings';
+import { AudioChainSettings, BeatMap, GestureAction, MidiLearnTarget, OverlaySettings, RemoteCommand } from './types';
+import {
+  LIVE_INPUT_GAIN_DEFAULT,
+  LIVE_INPUT_GAIN_MAX,
+  NOISE_GATE_THRESHOLD_DB,
+  SEEK_STEP_SECONDS,
+  SEEK_STEP_LARGE_SECONDS,
+  PREVIOUS_TRACK_RESTART_SECONDS,
+  GESTURE_HINT_MS,
+  VOLUME_STEP
+} from './constants';
+
+type InputMode = 'file' | 'live' | 'capture';
+type VisualMode = 'winter' | 'neon';
 
 const App: React.FC = () => {
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
   const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
-  const [sourceNode, setSourceNode] = useState<AudioBufferSourceNode | null>(null);
   
   const [isPlaying, setIsPlaying] = useState(false);
   const [fileName, setFileName] = useState<string>("");
   const [error, setError] = useState<string>("");
+
+  // --- Live Input (Mic / Line-In) ---
+  const [inputMode, setInputMode] = useState<InputMode>('file');
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [inputDeviceId, setInputDeviceId] = useState<string>("");
+  const [inputGain, setInputGain] = useState<number>(LIVE_INPUT_GAIN_DEFAULT);
+  const [gateThreshold, setGateThreshold] = useState<number>(NOISE_GATE_THRESHOLD_DB);
+  const liveInputRef = useRef<LiveInput | null>(null);
+  const gateDotRef = useRef<HTMLDivElement>(null);
+
+  // --- Tab / System Audio Capture ---
+  const [captureLabel, setCaptureLabel] = useState<string>("");
+  const captureRef = useRef<TabCapture | null>(null);
+
+  // --- Visual Mode (Winter / Neon) ---
+  const [visualMode, setVisualMode] = useState<VisualMode>('winter');
+  const [cameraReady, setCameraReady] = useState<boolean>(false);
+  const [cameraStatus, setCameraStatus] = useState<string>("");
+  const [cameraFailed, setCameraFailed] = useState<boolean>(false);
+  const [gestureDelegate, setGestureDelegate] = useState<GestureDelegate>(loadGestureDelegate);
+  const [gesture, setGesture] = useState<string>("None");
+  const [gestureHint, setGestureHint] = useState<string | null>(null); // Last fired action, shown briefly
+  const [showGestures, setShowGestures] = useState<boolean>(false);
+  const gestureBindings = useSyncExternalStore(subscribeGestureBindings, getGestureBindings);
+  const [volume, setVolume] = useState<number>(1);
+  const [audioChain, setAudioChain] = useState<AudioChainSettings>(loadAudioChainSettings);
+  const [showAudio, setShowAudio] = useState<boolean>(false);
+
+  // --- MIDI (pads fire snowflakes, knobs drive the look; stays on once opened) ---
+  const [midiInputs, setMidiInputs] = useState<string[] | null>(null); // Null until access is granted
+  const [midiLearn, setMidiLearn] = useState<MidiLearnTarget | null>(null);
+  const [showMidi, setShowMidi] = useState<boolean>(false);
+  const midiRef = useRef<MidiInput | null>(null);
+
+  // --- Remote Control (OSC bridge; reconnects on reload once enabled) ---
+  const [remoteStatus, setRemoteStatus] = useState<RemoteStatus | null>(null); // Null while off
+  const remoteRef = useRef<RemoteControl | null>(null);
+  // Commands arrive on the socket's handler, which outlives the render it was created in
+  const remoteCommandRef = useRef<(command: RemoteCommand) => void>(() => {});
+
+  // --- Playlist ---
+  const [tracks, setTracks] = useState<PlaylistTrack[]>([]);
+  const [currentTrackId, setCurrentTrackId] = useState<string | null>(null);
+  const [loadingTrackId, setLoadingTrackId] = useState<string | null>(null);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus | null>(null); // Null unless the current track streams
+  const [streamDuration, setStreamDuration] = useState<number>(0);
+  const [playOrder, setPlayOrder] = useState<string[]>([]);
+  const [shuffle, setShuffle] = useState<boolean>(false);
+  const [repeat, setRepeat] = useState<RepeatMode>('off');
+  const [showPlaylist, setShowPlaylist] = useState<boolean>(false);
+  const [showExport, setShowExport] = useState<boolean>(false);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState<boolean>(false);
+  const decodeCacheRef = useRef<DecodeCache | null>(null);
+  const loadRequestRef = useRef<number>(0);
+  // Source onended handlers outlive the render they were created in, so they go through this ref
+  const trackEndedRef = useRef<() => void>(() => {});
+
+  // --- Offline Beat Map ---
+  const [beatMap, setBeatMap] = useState<BeatMap | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<number | null>(null);
+  const beatMapCacheRef = useRef<WeakMap<AudioBuffer, BeatMap>>(new WeakMap());
+
+  // --- Show Seed (defaults to the file hash; an explicit seed sticks across tracks until cleared) ---
+  const [trackSeed, setTrackSeed] = useState<number>(0);
+  const [seedOverride, setSeedOverride] = useState<number | null>(null);
+  const [seedText, setSeedText] = useState<string | null>(null); // Non-null while the field is being edited
+  const seed = seedOverride ?? trackSeed;
+
+  // --- Overlays ---
+  const [overlays, setOverlays] = useState<OverlaySettings>({ oscilloscope: false, spectrumHalo: false, waveform: false });
+  const [autoOrbit, setAutoOrbit] = useState<boolean>(false); // Winter camera turns on its own
+  const [windBrush, setWindBrush] = useState<boolean>(false); // Winter drags blow snow instead of orbiting
   
+  const isStreaming = streamStatus !== null;
+  const hasTrack = audioBuffer !== null || isStreaming;
+  const trackDuration = audioBuffer?.duration ?? streamDuration;
+
+  // Kept in a ref so rapid seeks never lose track of the node that is currently playing
+  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
   const startTimeRef = useRef<number>(0);
   const pauseTimeRef = useRef<number>(0);
+  const playbackRateRef = useRef<number>(audioChain.playbackRate); // Rate the playing source runs at
 
   // --- REFS FOR REAL-TIME UI UPDATES (No Re-renders) ---
   const bassBarRef = useRef<HTMLDivElement>(null);
@@ -22,81 +147,702 @@ const App: React.FC = () => {
   const bassTextRef = useRef<HTMLSpanElement>(null);
   const midTextRef = useRef<HTMLSpanElement>(null);
   const trebleTextRef = useRef<HTMLSpanElement>(null);
+  const bpmTextRef = useRef<HTMLSpanElement>(null);
+  const beatDotRef = useRef<HTMLDivElement>(null);
+  const leftBarRef = useRef<HTMLDivElement>(null);
+  const rightBarRef = useRef<HTMLDivElement>(null);
+  const gestureProgressRef = useRef<HTMLDivElement>(null);
+
+  // Async loads can call this before the state update lands, so the graph is cached in a ref too
+  const audioGraphRef = useRef<{ ctx: AudioContext, any: AnalyserNode, output: GainNode, chain: AudioChain, stream: StreamingPlayer } | null>(null);
 
   const initAudio = () => {
-    if (!audioContext) {
+    if (!audioGraphRef.current) {
       const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
       const any = ctx.createAnalyser();
       any.fftSize = 2048; 
+      // Master volume, after the analyser tap so the visuals don't dim with it
+      const output = ctx.createGain();
+      output.gain.value = volume;
+      output.connect(ctx.destination);
+      // File playback goes through the processing chain, which also feeds the analyser (pre or post)
+      const chain = createAudioChain(ctx, any, output, audioChain);
+      // Long files and URLs play through a media element into the same chain
+      const stream = createStreamingPlayer(ctx, chain.input, {
+        onStatusChange: setStreamStatus,
+        onDurationChange: setStreamDuration,
+        onEnded: () => {
+          pauseTimeRef.current = 0;
+          trackEndedRef.current();
+        }
+      });
+      stream.setPlaybackRate(playbackRateRef.current);
       setAudioContext(ctx);
       setAnalyser(any);
-      return { ctx, any };
+      audioGraphRef.current = { ctx, any, output, chain, stream };
     }
-    return { ctx: audioContext, any: analyser };
+    return audioGraphRef.current;
   };
 
-  const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const getDecodeCache = (ctx: AudioContext) => {
+    if (!decodeCacheRef.current) decodeCacheRef.current = createDecodeCache(ctx);
+    return decodeCacheRef.current;
+  };
 
-    setError("");
-    setIsPlaying(false);
-    if (sourceNode) {
-        try { sourceNode.stop(); } catch(e) {}
+  const handleFileUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length > 0) addFiles(files, true);
+  };
+
+  const stopSource = () => {
+    const source = sourceNodeRef.current;
+    if (!source) return;
+    // Detach onended first so a manual stop is never mistaken for the track finishing
+    source.onended = null;
+    try { source.stop(); } catch(e) {}
+    source.disconnect();
+    sourceNodeRef.current = null;
+  };
+
+  // Track position of the playing source, which covers `playbackRate` seconds of track per second
+  const getSourcePosition = (ctx: AudioContext) => (ctx.currentTime - startTimeRef.current) * playbackRateRef.current;
+
+  const getPlaybackTime = () => {
+    // The media element keeps its own position, playing or paused
+    if (isStreaming) return audioGraphRef.current?.stream.getTime() ?? 0;
+    if (!audioContext || !audioBuffer) return 0;
+    if (isPlaying && sourceNodeRef.current) {
+      return Math.min(audioBuffer.duration, getSourcePosition(audioContext));
     }
+    return pauseTimeRef.current;
+  };
 
-    setFileName(file.name);
-    
-    try {
-      const { ctx } = initAudio();
-      const arrayBuffer = await file.arrayBuffer();
-      const decodedBuffer = await ctx.decodeAudioData(arrayBuffer);
-      setAudioBuffer(decodedBuffer);
-      startTimeRef.current = 0;
-      pauseTimeRef.current = 0;
-    } catch (err) {
+  const playStream = () => {
+    const { ctx, stream } = initAudio();
+    if (ctx.state === 'suspended') ctx.resume();
+    setIsPlaying(true);
+    stream.play().catch(err => {
+      // Interrupted by a pause or the next load, which already set the state
+      if (err?.name === 'AbortError') return;
       console.error(err);
-      setError("Failed to process audio file.");
-    }
+      setIsPlaying(false);
+      setError("Could not play stream.");
+    });
   };
 
-  const playAudio = () => {
-    if (!audioContext || !analyser || !audioBuffer) return;
+  const playAudio = (buffer: AudioBuffer | null = audioBuffer) => {
+    if (!buffer) {
+      if (isStreaming) playStream();
+      return;
+    }
+    const { ctx: audioContext, chain } = initAudio();
     if (audioContext.state === 'suspended') audioContext.resume();
+    stopSource();
 
     const source = audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(analyser);
-    analyser.connect(audioContext.destination);
+    source.buffer = buffer;
+    source.playbackRate.value = playbackRateRef.current;
+    // The analyser is a tap off the chain, not part of the output path (live input shares it and must stay silent)
+    source.connect(chain.input);
 
-    const offset = pauseTimeRef.current % audioBuffer.duration;
+    const offset = pauseTimeRef.current % buffer.duration;
     source.start(0, offset);
     
-    startTimeRef.current = audioContext.currentTime - offset;
+    startTimeRef.current = audioContext.currentTime - offset / playbackRateRef.current;
     
-    setSourceNode(source);
+    sourceNodeRef.current = source;
     setIsPlaying(true);
 
     source.onended = () => {
-        if (audioContext.currentTime - startTimeRef.current >= audioBuffer.duration) {
-            setIsPlaying(false);
+        if (getSourcePosition(audioContext) >= buffer.duration) {
+            sourceNodeRef.current = null;
             pauseTimeRef.current = 0;
+            trackEndedRef.current();
         }
     };
   };
 
   const pauseAudio = () => {
-    if (sourceNode && audioContext) {
-      sourceNode.stop();
-      pauseTimeRef.current = audioContext.currentTime - startTimeRef.current;
+    if (isStreaming) {
+      audioGraphRef.current?.stream.pause();
+      setIsPlaying(false);
+    } else if (sourceNodeRef.current && audioContext) {
+      pauseTimeRef.current = getSourcePosition(audioContext);
+      stopSource();
+      setIsPlaying(false);
+    }
+  };
+
+  const seekTo = (time: number) => {
+    if (trackDuration <= 0) return;
+    // Stay just short of the end so seeking to "End" doesn't start a zero-length source
+    const clamped = Math.min(Math.max(0, time), Math.max(0, trackDuration - 0.05));
+    if (isStreaming) {
+      audioGraphRef.current?.stream.seek(clamped);
+      return;
+    }
+    pauseTimeRef.current = clamped;
+    if (isPlaying && sourceNodeRef.current) playAudio();
+  };
+
+  // --- Playlist Handlers ---
+  const loadTrack = async (track: PlaylistTrack, autoplay: boolean) => {
+    const requestId = ++loadRequestRef.current;
+    setError("");
+    stopSource();
+    setIsPlaying(false);
+    setCurrentTrackId(track.id);
+    setFileName(track.name);
+    setLoadingTrackId(track.id);
+
+    try {
+      const { ctx, stream } = initAudio();
+      // Hashed alongside decoding for the default show seed
+      const { source } = track;
+      const seedPromise = typeof source === 'string'
+        ? Promise.resolve(seedFromString(source))
+        : seedFromFile(source).catch(() => 0);
+
+      if (track.stream) {
+        setAudioBuffer(null);
+        await stream.load(source);
+        const fileSeed = await seedPromise;
+        if (requestId !== loadRequestRef.current) return;
+
+        setTrackSeed(fileSeed);
+        pauseTimeRef.current = 0;
+        if (autoplay) playStream();
+        return;
+      }
+
+      stream.unload();
+      setStreamStatus(null);
+      const decodedBuffer = await getDecodeCache(ctx).get(track);
+      const fileSeed = await seedPromise;
+      // A newer selection superseded this one while it was decoding
+      if (requestId !== loadRequestRef.current) return;
+
+      setAudioBuffer(decodedBuffer);
+      setTrackSeed(fileSeed);
+      startTimeRef.current = 0;
+      pauseTimeRef.current = 0;
+      if (autoplay) playAudio(decodedBuffer);
+    } catch (err) {
+      if (requestId !== loadRequestRef.current) return;
+      console.error(err);
+      if (track.stream) {
+        setStreamStatus(null);
+        setError(typeof track.source === 'string'
+          ? "Could not load URL (it must be same-origin or allow CORS)."
+          : "Failed to stream audio file.");
+      } else {
+        setError("Failed to process audio file.");
+      }
+    } finally {
+      if (requestId === loadRequestRef.current) setLoadingTrackId(null);
+    }
+  };
+
+  const addFiles = (files: File[], loadFirst = false) => {
+    const newTracks = createTracks(files);
+    if (newTracks.length === 0) {
+      setError("No audio files found.");
+      return;
+    }
+    setTracks(prev => [...prev, ...newTracks]);
+    if (loadFirst || !currentTrackId) loadTrack(newTracks[0], false);
+  };
+
+  const addUrl = (url: string) => {
+    const track = createUrlTrack(url);
+    if (!track) {
+      setError("Not a valid URL.");
+      return;
+    }
+    setTracks(prev => [...prev, track]);
+    if (!currentTrackId) loadTrack(track, false);
+  };
+
+  const selectTrack = (id: string) => {
+    const track = tracks.find(t => t.id === id);
+    if (track) loadTrack(track, true);
+  };
+
+  const skipTrack = (direction: 1 | -1) => {
+    // Like most players, "previous" first rewinds the current track
+    if (direction === -1 && getPlaybackTime() > PREVIOUS_TRACK_RESTART_SECONDS) {
+      seekTo(0);
+      return;
+    }
+    // Repeat-one only pins auto-advance, manual skips still move through the queue
+    const nextId = getAdjacentTrackId(playOrder, currentTrackId, direction, repeat === 'one' ? 'all' : repeat);
+    const next = tracks.find(t => t.id === nextId);
+    if (next) loadTrack(next, isPlaying);
+  };
+
+  const handleTrackEnded = () => {
+    const nextId = getAdjacentTrackId(playOrder, currentTrackId, 1, repeat);
+    const next = tracks.find(t => t.id === nextId);
+    if (next) {
+      loadTrack(next, true);
+    } else {
+      setIsPlaying(false);
+    }
+  };
+  trackEndedRef.current = handleTrackEnded;
+
+  const removeTrack = (id: string) => {
+    const remaining = tracks.filter(t => t.id !== id);
+    if (id === currentTrackId) {
+      const nextId = getAdjacentTrackId(playOrder, id, 1, 'all');
+      const next = remaining.find(t => t.id === nextId);
+      if (next) {
+        loadTrack(next, isPlaying);
+      } else {
+        clearCurrentTrack();
+      }
+    }
+    setTracks(remaining);
+  };
+
+  const clearCurrentTrack = () => {
+    loadRequestRef.current++;
+    stopSource();
+    audioGraphRef.current?.stream.unload();
+    setStreamStatus(null);
+    setIsPlaying(false);
+    setAudioBuffer(null);
+    setCurrentTrackId(null);
+    setLoadingTrackId(null);
+    setFileName("");
+    pauseTimeRef.current = 0;
+  };
+
+  const clearPlaylist = () => {
+    clearCurrentTrack();
+    setTracks([]);
+  };
+
+  const toggleShuffle = () => {
+    // A fresh shuffle starts from the current track
+    setPlayOrder(buildPlayOrder(tracks, !shuffle, currentTrackId));
+    setShuffle(!shuffle);
+  };
+
+  const cycleRepeat = () => {
+    setRepeat(repeat === 'off' ? 'all' : repeat === 'all' ? 'one' : 'off');
+  };
+
+  const commitSeed = () => {
+    if (seedText === null) return;
+    const text = seedText.trim();
+    if (!text) setSeedOverride(null);
+    else if (text !== formatSeed(seed)) setSeedOverride(parseSeed(text));
+    setSeedText(null);
+  };
+
+  useEffect(() => {
+    setPlayOrder(prev => buildPlayOrder(tracks, shuffle, currentTrackId, prev));
+  }, [tracks]);
+
+  // Decode the upcoming track ahead of time so auto-advance doesn't stall the animation loop
+  useEffect(() => {
+    const cache = decodeCacheRef.current;
+    if (!cache || !currentTrackId) return;
+    const nextId = getAdjacentTrackId(playOrder, currentTrackId, 1, repeat === 'one' ? 'all' : repeat);
+    const next = tracks.find(t => t.id === nextId);
+    cache.retain(next ? [currentTrackId, next.id] : [currentTrackId]);
+    // Streamed tracks are never decoded, they start quickly anyway
+    if (next && !next.stream) cache.prefetch(next);
+  }, [currentTrackId, playOrder, repeat, tracks]);
+
+  // Analyze each loaded track once, up front, so the visualizer can schedule spawns ahead of the audio
+  useEffect(() => {
+    setBeatMap(null);
+    setAnalysisProgress(null);
+    if (!audioBuffer) return;
+
+    const cached = beatMapCacheRef.current.get(audioBuffer);
+    if (cached) {
+      setBeatMap(cached);
+      return;
+    }
+
+    setAnalysisProgress(0);
+    const job = analyzeTrack(audioBuffer, setAnalysisProgress);
+    job.promise
+      .then(map => {
+        beatMapCacheRef.current.set(audioBuffer, map);
+        setBeatMap(map);
+        setAnalysisProgress(null);
+      })
+      .catch(err => {
+        if (err?.name === 'AbortError') return;
+        // Not fatal: the visualizer falls back to live onset detection
+        console.error(err);
+        setAnalysisProgress(null);
+      });
+
+    return () => job.cancel();
+  }, [audioBuffer]);
+
+  // --- Drag & Drop (files or folders anywhere on the page) ---
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    if (!isDraggingFiles) setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Only reset when the pointer leaves the window, not when crossing child elements
+    if (!e.relatedTarget) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    try {
+      const files = await collectDroppedFiles(e.dataTransfer);
+      if (inputMode !== 'file') switchInputMode('file');
+      addFiles(files);
+      setShowPlaylist(true);
+    } catch (err) {
+      console.error(err);
+      setError("Could not read dropped files.");
+    }
+  };
+
+  // --- Keyboard Seeking (when focus isn't on a form control) ---
+  useEffect(() => {
+    if (inputMode !== 'file' || !hasTrack) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return;
+      if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+      const target = e.target as HTMLElement | null;
+      if (target && target.closest('input, select, textarea, [role="slider"]')) return;
+
+      const step = e.shiftKey ? SEEK_STEP_LARGE_SECONDS : SEEK_STEP_SECONDS;
+      seekTo(getPlaybackTime() + (e.key === 'ArrowLeft' ? -step : step));
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // --- Live Input Handlers ---
+  const refreshInputDevices = async () => {
+    try {
+      setInputDevices(await listAudioInputs());
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const stopLiveInput = () => {
+    if (liveInputRef.current) {
+      liveInputRef.current.stop();
+      liveInputRef.current = null;
+    }
+    setIsPlaying(false);
+  };
+
+  const startLive = async (deviceId: string = inputDeviceId) => {
+    setError("");
+    if (liveInputRef.current) {
+      liveInputRef.current.stop();
+      liveInputRef.current = null;
+    }
+
+    try {
+      const { ctx, any } = initAudio();
+      if (!any) return;
+      if (ctx.state === 'suspended') await ctx.resume();
+
+      liveInputRef.current = await startLiveInput(ctx, any, {
+        deviceId: deviceId || undefined,
+        gain: inputGain,
+        gateThresholdDb: gateThreshold,
+        onGateChange: (open) => {
+          if (gateDotRef.current) gateDotRef.current.style.opacity = open ? '1' : '0.2';
+        }
+      });
+      setIsPlaying(true);
+      // Device labels only become available once permission has been granted
+      refreshInputDevices();
+    } catch (err) {
+      console.error(err);
       setIsPlaying(false);
+      setError("Could not open audio input.");
+    }
+  };
+
+  const stopCapture = () => {
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+    }
+    setCaptureLabel("");
+    setIsPlaying(false);
+  };
+
+  // getDisplayMedia needs a user gesture, so this only runs from a click (or a gesture action)
+  const startCapture = async () => {
+    setError("");
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
     }
+
+    try {
+      const { ctx, any } = initAudio();
+      if (ctx.state === 'suspended') await ctx.resume();
+
+      const capture = await startTabCapture(ctx, any, {
+        onEnded: () => {
+          if (captureRef.current !== capture) return;
+          captureRef.current = null;
+          setCaptureLabel("");
+          setIsPlaying(false);
+          setError("Tab sharing stopped.");
+        }
+      });
+      captureRef.current = capture;
+      setCaptureLabel(capture.label);
+      setIsPlaying(true);
+    } catch (err) {
+      console.error(err);
+      setIsPlaying(false);
+      setError(describeCaptureError(err));
+    }
+  };
+
+  const switchInputMode = (mode: InputMode) => {
+    if (mode === inputMode) return;
+    setError("");
+
+    if (inputMode === 'file') {
+      if (isPlaying) pauseAudio();
+    } else if (inputMode === 'live') {
+      stopLiveInput();
+    } else {
+      stopCapture();
+    }
+    if (mode === 'live') refreshInputDevices();
+    setInputMode(mode);
+  };
+
+  const handleDeviceChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const deviceId = e.target.value;
+    setInputDeviceId(deviceId);
+    if (liveInputRef.current) startLive(deviceId);
+  };
+
+  useEffect(() => {
+    if (liveInputRef.current) liveInputRef.current.setGain(inputGain);
+  }, [inputGain]);
+
+  useEffect(() => {
+    const graph = audioGraphRef.current;
+    if (graph) graph.output.gain.setTargetAtTime(volume, graph.ctx.currentTime, 0.02);
+  }, [volume]);
+
+  useEffect(() => {
+    saveAudioChainSettings(audioChain);
+    const graph = audioGraphRef.current;
+    graph?.chain.apply(audioChain);
+    const rate = audioChain.playbackRate;
+    if (rate === playbackRateRef.current) return;
+    graph?.stream.setPlaybackRate(rate);
+    const source = sourceNodeRef.current;
+    if (graph && source) {
+      // Re-anchor so the track carries on from where it is, at the new speed
+      const position = getSourcePosition(graph.ctx);
+      source.playbackRate.setValueAtTime(rate, graph.ctx.currentTime);
+      startTimeRef.current = graph.ctx.currentTime - position / rate;
+    }
+    playbackRateRef.current = rate;
+  }, [audioChain]);
+
+  useEffect(() => {
+    if (liveInputRef.current) liveInputRef.current.setGateThreshold(gateThreshold);
+  }, [gateThreshold]);
+
+  useEffect(() => {
+    if (inputMode !== 'live' || !navigator.mediaDevices) return;
+    navigator.mediaDevices.addEventListener('devicechange', refreshInputDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshInputDevices);
+  }, [inputMode]);
+
+  useEffect(() => {
+    return () => {
+      if (liveInputRef.current) liveInputRef.current.stop();
+      if (captureRef.current) captureRef.current.stop();
+      if (midiRef.current) midiRef.current.dispose();
+    };
+  }, []);
+
+  const switchVisualMode = (mode: VisualMode) => {
+    if (mode === visualMode) return;
+    // The Neon visualizer owns the webcam; reset its status so a stale badge isn't shown next time
+    setCameraReady(false);
+    setCameraStatus("");
+    setCameraFailed(false);
+    setGesture("None");
+    setVisualMode(mode);
+  };
+
+  // --- Gesture Actions (burst and palette are handled by the Neon visualizer itself) ---
+  const handleGestureAction = (action: GestureAction) => {
+    let hint = GESTURE_ACTION_LABELS[action];
+    switch (action) {
+      case 'playPause':
+        if (inputMode === 'live') {
+          if (isPlaying) stopLiveInput(); else startLive();
+        } else if (inputMode === 'capture') {
+          if (isPlaying) stopCapture(); else startCapture();
+        } else if (isPlaying) {
+          pauseAudio();
+        } else {
+          playAudio();
+        }
+        break;
+      case 'nextTrack':
+      case 'previousTrack':
+        if (inputMode === 'file') skipTrack(action === 'nextTrack' ? 1 : -1);
+        break;
+      case 'volumeUp':
+      case 'volumeDown': {
+        const next = Math.min(1, Math.max(0, volume + (action === 'volumeUp' ? VOLUME_STEP : -VOLUME_STEP)));
+        setVolume(next);
+        hint = `Volume ${Math.round(next * 100)}%`;
+        break;
+      }
+    }
+    setGestureHint(hint);
+  };
+
+  useEffect(() => {
+    if (!gestureHint) return;
+    const timeout = setTimeout(() => setGestureHint(null), GESTURE_HINT_MS);
+    return () => clearTimeout(timeout);
+  }, [gestureHint]);
+
+  const handleCameraStatusChange = (ready: boolean, status: string, failed = false) => {
+    setCameraReady(ready);
+    setCameraStatus(status);
+    setCameraFailed(failed);
+  };
+
+  // Access is requested on first open, from the click (browsers may prompt)
+  const toggleMidi = async () => {
+    if (midiRef.current) {
+      setShowMidi(v => !v);
+      return;
+    }
+    setError("");
+    try {
+      const access = await requestMidiAccess();
+      midiRef.current = createMidiInput(access, {
+        onTrigger: emitTrigger,
+        onInputsChange: setMidiInputs,
+        onLearnChange: setMidiLearn
+      });
+      setShowMidi(true);
+    } catch (err) {
+      console.error(err);
+      setError(describeMidiError(err));
+    }
+  };
+
+  const handleRemoteCommand = (command: RemoteCommand) => {
+    switch (command.type) {
+      case 'play':
+      case 'pause':
+      case 'togglePlay': {
+        const play = command.type === 'togglePlay' ? !isPlaying : command.type === 'play';
+        // Playing again would restart from the last pause position
+        if (play === isPlaying) break;
+        if (inputMode === 'file') {
+          if (play) playAudio(); else pauseAudio();
+        } else if (inputMode === 'live') {
+          if (play) startLive(); else stopLiveInput();
+        } else if (!play) {
+          // Sharing a tab needs a click in the page, so a capture can only be stopped remotely
+          stopCapture();
+        }
+        break;
+      }
+      case 'seek':
+        if (inputMode === 'file') seekTo(command.time);
+        break;
+      case 'next':
+      case 'previous':
+        if (inputMode === 'file') skipTrack(command.type === 'next' ? 1 : -1);
+        break;
+      case 'preset': {
+        const preset = loadVisualPresets()[command.name];
+        if (preset) setVisualConfig(preset);
+        break;
+      }
+      case 'mode':
+        switchVisualMode(command.mode);
+        break;
+      case 'spawn': {
+        const { band, intensity, position } = command;
+        const at = position && { x: position.x * window.innerWidth, y: position.y * window.innerHeight };
+        emitTrigger({ band, intensity, at });
+        break;
+      }
+      case 'param':
+        // Validated like an imported preset: numbers are clamped to the slider ranges, a malformed color keeps the current one
+        setVisualConfig(parseVisualConfig({ ...getVisualConfig(), [command.key]: command.value }));
+        break;
+    }
+  };
+  remoteCommandRef.current = handleRemoteCommand;
+
+  const connectRemote = () => {
+    remoteRef.current = createRemoteControl(REMOTE_BRIDGE_URL, {
+      onCommand: (command) => remoteCommandRef.current(command),
+      onStatusChange: setRemoteStatus
+    });
+  };
+
+  const toggleRemote = () => {
+    if (remoteRef.current) {
+      remoteRef.current.close();
+      remoteRef.current = null;
+      setRemoteStatus(null);
+      saveRemoteEnabled(false);
+    } else {
+      connectRemote();
+      saveRemoteEnabled(true);
+    }
+  };
+
+  useEffect(() => {
+    if (loadRemoteEnabled()) connectRemote();
+    return () => {
+      if (remoteRef.current) remoteRef.current.close();
+      remoteRef.current = null;
+    };
+  }, []);
+
+  const handleGestureDelegateChange = (delegate: GestureDelegate) => {
+    saveGestureDelegate(delegate);
+    setGestureDelegate(delegate);
   };
 
   const handleReplay = () => {
-    if (sourceNode) {
-        try { sourceNode.stop(); } catch(e) {}
+    if (isStreaming) {
+      seekTo(0);
+      if (!isPlaying) playStream();
+      return;
     }
+    stopSource();
     pauseTimeRef.current = 0;
     startTimeRef.current = 0;
     setIsPlaying(false);
@@ -104,71 +850,438 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="relative w-full h-screen bg-slate-950 overflow-hidden font-sans selection:bg-cyan-500/30">
+    <div
+      className="relative w-full h-screen bg-slate-950 overflow-hidden font-sans selection:bg-cyan-500/30"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       
-      {/* Main Visualizer Layer */}
-      <Visualizer 
-        audioContext={audioContext} 
-        analyser={analyser} 
-        isPlaying={isPlaying} 
-        bassBarRef={bassBarRef}
-        midBarRef={midBarRef}
-        trebleBarRef={trebleBarRef}
-        bassTextRef={bassTextRef}
-        midTextRef={midTextRef}
-        trebleTextRef={trebleTextRef}
-      />
+      {/* Main Visualizer Layer (only the active mode is mounted, so the webcam runs only in Neon) */}
+      {visualMode === 'winter' ? (
+        <Visualizer 
+          audioContext={audioContext} 
+          analyser={analyser} 
+          isPlaying={isPlaying} 
+          beatMap={inputMode === 'file' ? beatMap : null}
+          getTrackTime={getPlaybackTime}
+          bassBarRef={bassBarRef}
+          midBarRef={midBarRef}
+          trebleBarRef={trebleBarRef}
+          bassTextRef={bassTextRef}
+          midTextRef={midTextRef}
+          trebleTextRef={trebleTextRef}
+          bpmTextRef={bpmTextRef}
+          beatDotRef={beatDotRef}
+          leftBarRef={leftBarRef}
+          rightBarRef={rightBarRef}
+          overlays={overlays}
+          seed={seed}
+          autoOrbit={autoOrbit}
+          pointerTool={windBrush ? 'wind' : 'orbit'}
+        />
+      ) : (
+        <PsychedelicVisualizer
+          audioContext={audioContext}
+          analyser={analyser}
+          isPlaying={isPlaying}
+          beatMap={inputMode === 'file' ? beatMap : null}
+          getTrackTime={getPlaybackTime}
+          onGestureChange={setGesture}
+          onGestureAction={handleGestureAction}
+          gestureDelegate={gestureDelegate}
+          onCameraStatusChange={handleCameraStatusChange}
+          bassBarRef={bassBarRef}
+          midBarRef={midBarRef}
+          trebleBarRef={trebleBarRef}
+          bassTextRef={bassTextRef}
+          midTextRef={midTextRef}
+          trebleTextRef={trebleTextRef}
+          bpmTextRef={bpmTextRef}
+          beatDotRef={beatDotRef}
+          leftBarRef={leftBarRef}
+          rightBarRef={rightBarRef}
+          gestureProgressRef={gestureProgressRef}
+          overlays={overlays}
+          seed={seed}
+        />
+      )}
 
       {/* --- COMPACT MINI INTERFACE: Top Left --- */}
       <div className="absolute top-4 left-4 z-50">
         <div className="flex items-center gap-1.5 bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-full p-1 shadow-xl hover:bg-slate-900/60 transition-all group">
            
-           {/* File Input */}
-           <div className="relative flex items-center pl-1 pr-1.5 gap-1.5 cursor-pointer group/file">
-             <input 
-               type="file" 
-               accept="audio/*"
-               onChange={handleFileUpload}
-               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
-             />
-             <div className={`w-4 h-4 rounded-full flex items-center justify-center transition-colors ${isPlaying ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/5 text-slate-400'}`}>
-               <Music className="w-2.5 h-2.5" />
-             </div>
-             <span className="text-[10px] font-medium text-slate-400 max-w-[60px] sm:max-w-[80px] truncate group-hover/file:text-white transition-colors">
-               {fileName || "Select Music"}
-             </span>
+           {/* Visual Mode Switcher */}
+           <div className="flex items-center bg-white/5 rounded-full p-0.5">
+             <button
+               onClick={() => switchVisualMode('winter')}
+               className={`w-4 h-4 flex items-center justify-center rounded-full transition-colors ${visualMode === 'winter' ? 'bg-cyan-500/30 text-cyan-200' : 'text-slate-500 hover:text-white'}`}
+               title="Winter"
+             >
+               <Snowflake className="w-2.5 h-2.5" />
+             </button>
+             <button
+               onClick={() => switchVisualMode('neon')}
+               className={`w-4 h-4 flex items-center justify-center rounded-full transition-colors ${visualMode === 'neon' ? 'bg-fuchsia-500/30 text-fuchsia-200' : 'text-slate-500 hover:text-white'}`}
+               title="Neon (Webcam Gestures)"
+             >
+               <Sparkles className="w-2.5 h-2.5" />
+             </button>
+           </div>
+
+           {/* Look Settings Toggle */}
+           <button
+             onClick={() => setShowSettings(v => !v)}
+             className={`w-5 h-5 flex items-center justify-center rounded-full transition-colors active:scale-95 ${showSettings ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/5 text-slate-400 hover:text-white hover:bg-white/10'}`}
+             title="Look Settings"
+           >
+             <SlidersHorizontal className="w-2.5 h-2.5" />
+           </button>
+
+           {/* Audio Processing Toggle */}
+           <button
+             onClick={() => setShowAudio(v => !v)}
+             className={`w-5 h-5 flex items-center justify-center rounded-full transition-colors active:scale-95 ${showAudio ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/5 text-slate-400 hover:text-white hover:bg-white/10'}`}
+             title="Audio Processing"
+           >
+             <SlidersVertical className="w-2.5 h-2.5" />
+           </button>
+
+           {/* MIDI Toggle */}
+           <button
+             onClick={toggleMidi}
+             className={`w-5 h-5 flex items-center justify-center rounded-full transition-colors active:scale-95 ${showMidi ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/5 text-slate-400 hover:text-white hover:bg-white/10'}`}
+             title="MIDI"
+           >
+             <Piano className="w-2.5 h-2.5" />
+           </button>
+
+           {/* Remote Control Toggle */}
+           <button
+             onClick={toggleRemote}
+             className={`w-5 h-5 flex items-center justify-center rounded-full transition-colors active:scale-95 ${remoteStatus ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/5 text-slate-400 hover:text-white hover:bg-white/10'} ${remoteStatus && remoteStatus !== 'connected' ? 'animate-pulse' : ''}`}
+             title={`Remote Control (OSC) · ${
+               remoteStatus === 'connected' ? 'Connected'
+               : remoteStatus ? `Waiting for bridge at ${REMOTE_BRIDGE_URL}`
+               : 'Off'}`}
+           >
+             <RadioTower className="w-2.5 h-2.5" />
+           </button>
+
+           <div className="h-3 w-px bg-white/10 mx-0.5"></div>
+
+           {/* Audio Source Switcher */}
+           <div className="flex items-center bg-white/5 rounded-full p-0.5">
+             {([
+               ['file', 'Files & URLs', FileAudio],
+               ['live', 'Live Input (Mic / Line-In)', Mic],
+               ['capture', 'Tab / System Audio', MonitorSpeaker]
+             ] as const).map(([mode, label, Icon]) => (
+               <button
+                 key={mode}
+                 onClick={() => switchInputMode(mode)}
+                 className={`w-4 h-4 flex items-center justify-center rounded-full transition-colors ${inputMode === mode ? 'bg-cyan-500/30 text-cyan-200' : 'text-slate-500 hover:text-white'}`}
+                 title={label}
+               >
+                 <Icon className="w-2.5 h-2.5" />
+               </button>
+             ))}
            </div>
 
+           {inputMode === 'file' ? (
+             /* File Input */
+             <div className="relative flex items-center pl-1 pr-1.5 gap-1.5 cursor-pointer group/file">
+               <input 
+                 type="file" 
+                 accept="audio/*"
+                 multiple
+                 onChange={handleFileUpload}
+                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-20"
+               />
+               <div className={`w-4 h-4 rounded-full flex items-center justify-center transition-colors ${isPlaying ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/5 text-slate-400'}`}>
+                 <Music className="w-2.5 h-2.5" />
+               </div>
+               <span className="text-[10px] font-medium text-slate-400 max-w-[60px] sm:max-w-[80px] truncate group-hover/file:text-white transition-colors">
+                 {fileName || "Select Music"}
+               </span>
+               {(streamStatus === 'loading' || streamStatus === 'buffering') && (
+                 <span className="text-[8px] font-mono text-cyan-300/80 whitespace-nowrap animate-pulse" title="Streaming">
+                   {streamStatus === 'loading' ? 'Loading…' : 'Buffering…'}
+                 </span>
+               )}
+               {analysisProgress !== null && (
+                 <span className="text-[8px] font-mono text-cyan-300/80 whitespace-nowrap animate-pulse" title="Building beat map">
+                   Analyzing… {Math.round(analysisProgress * 100)}%
+                 </span>
+               )}
+             </div>
+           ) : inputMode === 'capture' ? (
+             /* Shared Tab */
+             <div className="flex items-center pl-1 pr-1.5 gap-1.5">
+               <span
+                 className={`text-[10px] font-medium max-w-[80px] sm:max-w-[110px] truncate ${captureLabel ? 'text-cyan-200' : 'text-slate-400'}`}
+                 title={captureLabel || 'Pick a tab and tick "Share tab audio"'}
+               >
+                 {captureLabel || 'Share a Tab'}
+               </span>
+             </div>
+           ) : (
+             /* Device Picker */
+             <div className="flex items-center pl-1 pr-1.5 gap-1.5">
+               <div ref={gateDotRef} className="w-1.5 h-1.5 rounded-full bg-cyan-300 shadow-[0_0_6px_rgba(165,243,252,0.8)] opacity-20 transition-opacity" title="Noise Gate" />
+               <select
+                 value={inputDeviceId}
+                 onChange={handleDeviceChange}
+                 className="bg-transparent text-[10px] font-medium text-slate-400 hover:text-white max-w-[80px] sm:max-w-[110px] truncate outline-none cursor-pointer"
+               >
+                 <option value="" className="bg-slate-900">Default Input</option>
+                 {inputDevices.map((d, i) => (
+                   <option key={d.deviceId || i} value={d.deviceId} className="bg-slate-900">
+                     {d.label || `Input ${i + 1}`}
+                   </option>
+                 ))}
+               </select>
+             </div>
+           )}
+
            <div className="h-3 w-px bg-white/10 mx-0.5"></div>
 
            {/* Controls */}
-           <div className="flex items-center gap-1 pr-0.5">
-              <button 
-                  onClick={isPlaying ? pauseAudio : playAudio}
-                  disabled={!audioBuffer}
-                  className={`w-5 h-5 flex items-center justify-center rounded-full transition-all active:scale-95
-                    ${!audioBuffer 
-                        ? 'bg-white/5 text-slate-600 cursor-not-allowed' 
-                        : isPlaying
-                            ? 'bg-cyan-500 text-slate-900 shadow-[0_0_8px_rgba(6,182,212,0.5)]'
-                            : 'bg-white/10 text-white hover:bg-white/20'
-                    }
-                  `}
-                >
-                  {isPlaying ? <Pause className="w-2.5 h-2.5 fill-current" /> : <Play className="w-2.5 h-2.5 fill-current ml-0.5" />}
-                </button>
+           {inputMode === 'file' ? (
+             <div className="flex items-center gap-1 pr-0.5">
+                <button 
+                    onClick={() => skipTrack(-1)}
+                    disabled={tracks.length === 0}
+                    className="w-5 h-5 flex items-center justify-center rounded-full bg-white/5 text-slate-400 hover:text-white hover:bg-white/10 transition-colors active:scale-95 disabled:opacity-30"
+                    title="Previous"
+                  >
+                    <SkipBack className="w-2.5 h-2.5 fill-current" />
+                  </button>
 
                 <button 
-                  onClick={handleReplay}
-                  disabled={!audioBuffer}
-                  className="w-5 h-5 flex items-center justify-center rounded-full bg-white/5 text-slate-400 hover:text-white hover:bg-white/10 transition-colors active:scale-95 disabled:opacity-30"
-                  title="Replay"
-                >
-                  <RotateCcw className="w-2.5 h-2.5" />
-                </button>
-           </div>
+                    onClick={isPlaying ? pauseAudio : () => playAudio()}
+                    disabled={!hasTrack}
+                    className={`w-5 h-5 flex items-center justify-center rounded-full transition-all active:scale-95
+                      ${!hasTrack 
+                          ? 'bg-white/5 text-slate-600 cursor-not-allowed' 
+                          : isPlaying
+                              ? 'bg-cyan-500 text-slate-900 shadow-[0_0_8px_rgba(6,182,212,0.5)]'
+                              : 'bg-white/10 text-white hover:bg-white/20'
+                      }
+                    `}
+                  >
+                    {isPlaying ? <Pause className="w-2.5 h-2.5 fill-current" /> : <Play className="w-2.5 h-2.5 fill-current ml-0.5" />}
+                  </button>
+
+                  <button 
+                    onClick={handleReplay}
+                    disabled={!hasTrack}
+                    className="w-5 h-5 flex items-center justify-center rounded-full bg-white/5 text-slate-400 hover:text-white hover:bg-white/10 transition-colors active:scale-95 disabled:opacity-30"
+                    title="Replay"
+                  >
+                    <RotateCcw className="w-2.5 h-2.5" />
+                  </button>
+
+                <button 
+                    onClick={() => skipTrack(1)}
+                    disabled={tracks.length < 2}
+                    className="w-5 h-5 flex items-center justify-center rounded-full bg-white/5 text-slate-400 hover:text-white hover:bg-white/10 transition-colors active:scale-95 disabled:opacity-30"
+                    title="Next"
+                  >
+                    <SkipForward className="w-2.5 h-2.5 fill-current" />
+                  </button>
+
+                <button 
+                    onClick={() => setShowPlaylist(v => !v)}
+                    className={`w-5 h-5 flex items-center justify-center rounded-full transition-colors active:scale-95 ${showPlaylist ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/5 text-slate-400 hover:text-white hover:bg-white/10'}`}
+                    title="Queue"
+                  >
+                    <ListMusic className="w-2.5 h-2.5" />
+                  </button>
+
+                <button 
+                    onClick={() => setShowExport(v => !v)}
+                    className={`w-5 h-5 flex items-center justify-center rounded-full transition-colors active:scale-95 ${showExport ? 'bg-cyan-500/20 text-cyan-300' : 'bg-white/5 text-slate-400 hover:text-white hover:bg-white/10'}`}
+                    title="Export Video"
+                  >
+                    <Film className="w-2.5 h-2.5" />
+                  </button>
+             </div>
+           ) : (
+             <div className="flex items-center gap-1 pr-0.5">
+                <button 
+                    onClick={inputMode === 'live'
+                      ? (isPlaying ? stopLiveInput : () => startLive())
+                      : (isPlaying ? stopCapture : startCapture)}
+                    className={`w-5 h-5 flex items-center justify-center rounded-full transition-all active:scale-95
+                      ${isPlaying
+                          ? 'bg-cyan-500 text-slate-900 shadow-[0_0_8px_rgba(6,182,212,0.5)]'
+                          : 'bg-white/10 text-white hover:bg-white/20'
+                      }
+                    `}
+                    title={inputMode === 'live'
+                      ? (isPlaying ? 'Stop Input' : 'Start Input')
+                      : (isPlaying ? 'Stop Sharing' : 'Share Tab Audio')}
+                  >
+                    {isPlaying ? <Pause className="w-2.5 h-2.5 fill-current" /> : <Play className="w-2.5 h-2.5 fill-current ml-0.5" />}
+                  </button>
+             </div>
+           )}
         </div>
 
+        {/* Live Input Settings */}
+        {inputMode === 'live' && (
+          <div className="mt-1.5 flex flex-col gap-1 w-40 bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-md px-2 py-1.5 shadow-xl">
+            <label className="flex items-center gap-1.5 text-[8px] uppercase tracking-wider text-slate-400 font-medium">
+              <span className="w-7">Gain</span>
+              <input
+                type="range"
+                min={0}
+                max={LIVE_INPUT_GAIN_MAX}
+                step={0.05}
+                value={inputGain}
+                onChange={(e) => setInputGain(parseFloat(e.target.value))}
+                className="flex-1 h-1 accent-cyan-300"
+              />
+              <span className="w-7 text-right font-mono text-cyan-200">{inputGain.toFixed(1)}x</span>
+            </label>
+            <label className="flex items-center gap-1.5 text-[8px] uppercase tracking-wider text-slate-400 font-medium">
+              <span className="w-7">Gate</span>
+              <input
+                type="range"
+                min={-90}
+                max={-10}
+                step={1}
+                value={gateThreshold}
+                onChange={(e) => setGateThreshold(parseFloat(e.target.value))}
+                className="flex-1 h-1 accent-cyan-300"
+              />
+              <span className="w-7 text-right font-mono text-cyan-200">{gateThreshold}dB</span>
+            </label>
+          </div>
+        )}
+
+        {/* Timeline */}
+        {inputMode === 'file' && (
+          <div className="mt-1.5">
+            <SeekBar
+              duration={trackDuration}
+              audioBuffer={audioBuffer}
+              getCurrentTime={getPlaybackTime}
+              getBufferedEnd={isStreaming ? audioGraphRef.current?.stream.getBufferedEnd : undefined}
+              onSeek={seekTo}
+            />
+          </div>
+        )}
+
+        {/* Queue */}
+        {inputMode === 'file' && showPlaylist && (
+          <div className="mt-1.5">
+            <Playlist
+              tracks={tracks}
+              currentId={currentTrackId}
+              loadingId={loadingTrackId}
+              shuffle={shuffle}
+              repeat={repeat}
+              onSelect={selectTrack}
+              onRemove={removeTrack}
+              onMove={(from, to) => setTracks(moveTrack(tracks, from, to))}
+              onAddFiles={(files) => addFiles(files)}
+              onAddUrl={addUrl}
+              onToggleShuffle={toggleShuffle}
+              onCycleRepeat={cycleRepeat}
+              onClear={clearPlaylist}
+            />
+          </div>
+        )}
+
+        {/* Video Export (always mounted, only hidden, so leaving file mode or closing the panel doesn't cancel a running export) */}
+        <div className={`mt-1.5 ${inputMode === 'file' && showExport ? '' : 'hidden'}`}>
+          <ExportPanel
+            audioBuffer={audioBuffer}
+            streamed={isStreaming}
+            beatMap={beatMap}
+            overlays={overlays}
+            fileName={fileName}
+            seed={seed}
+            onStart={() => { if (isPlaying) pauseAudio(); }}
+          />
+        </div>
+
+        {/* Look Settings */}
+        {showSettings && (
+          <div className="mt-1.5">
+            <SettingsPanel />
+          </div>
+        )}
+
+        {/* Audio Processing */}
+        {showAudio && (
+          <div className="mt-1.5">
+            <AudioChainPanel settings={audioChain} onChange={setAudioChain} />
+          </div>
+        )}
+
+        {/* MIDI Mappings */}
+        {showMidi && midiInputs && (
+          <div className="mt-1.5">
+            <MidiPanel
+              inputs={midiInputs}
+              learning={midiLearn}
+              onLearn={(target) => midiRef.current?.learn(target)}
+            />
+          </div>
+        )}
+
+        {/* Camera / Gesture Status (Neon mode) */}
+        {visualMode === 'neon' && (
+          <div className="mt-1.5 flex items-center gap-1.5">
+            <div className={`flex items-center gap-1 px-1.5 py-0.5 rounded-full border backdrop-blur-md text-[9px] font-medium
+              ${cameraReady ? 'bg-fuchsia-500/10 border-fuchsia-400/30 text-fuchsia-200'
+                : cameraFailed ? 'bg-red-900/50 border-red-500/20 text-red-200'
+                : 'bg-slate-900/40 border-white/10 text-slate-400'}`}
+            >
+              {cameraReady ? <Camera className="w-2.5 h-2.5" /> : <CameraOff className="w-2.5 h-2.5" />}
+              <span>{cameraStatus || 'Camera Off'}</span>
+            </div>
+            {/* Also offered after a failure, where switching the delegate is the way out (it reloads the recognizer) */}
+            {(cameraReady || cameraFailed || showGestures) && (
+              <button
+                onClick={() => setShowGestures(v => !v)}
+                className={`relative flex items-center gap-1 px-1.5 py-0.5 rounded-full border backdrop-blur-md text-[9px] font-medium overflow-hidden transition-colors
+                  ${showGestures ? 'border-fuchsia-400/30 bg-fuchsia-500/10 text-fuchsia-200' : 'border-white/10 bg-slate-900/40 text-slate-300 hover:text-white'}`}
+                title="Gesture Bindings"
+              >
+                <Hand className="w-2.5 h-2.5" />
+                <span className="font-mono">
+                  {!cameraReady ? 'Gestures' : isGestureName(gesture) ? GESTURE_LABELS[gesture] : gesture.replace(/_/g, ' ')}
+                  {cameraReady && isGestureName(gesture) && gestureBindings[gesture].action !== 'none' && (
+                    <span className="text-slate-500"> → {GESTURE_ACTION_LABELS[gestureBindings[gesture].action]}</span>
+                  )}
+                </span>
+                {/* Hold progress, driven from the detection loop */}
+                <div ref={gestureProgressRef} className="absolute left-0 bottom-0 h-px bg-fuchsia-300 w-0" />
+              </button>
+            )}
+            {cameraReady && gestureHint && (
+              <span className="px-1.5 py-0.5 rounded-full bg-fuchsia-500/20 text-[9px] font-medium text-fuchsia-100 animate-in fade-in">
+                {gestureHint}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Gesture Bindings (Neon mode; stays open while a new delegate loads) */}
+        {visualMode === 'neon' && showGestures && (
+          <div className="mt-1.5">
+            <GesturePanel
+              activeGesture={gesture}
+              delegate={gestureDelegate}
+              onDelegateChange={handleGestureDelegateChange}
+            />
+          </div>
+        )}
+
         {error && (
             <div className="mt-2 text-[9px] text-red-200 bg-red-900/50 border border-red-500/20 px-2 py-1 rounded-lg backdrop-blur-md animate-in fade-in slide-in-from-top-2">
                 {error}
@@ -179,6 +1292,15 @@ const App: React.FC = () => {
       {/* --- REAL-TIME DATA DASHBOARD: Top Right --- */}
       <div className="absolute top-4 right-4 z-40 w-24 pointer-events-none select-none">
         <div className="bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-md p-1.5 shadow-xl flex flex-col gap-1.5">
+
+           {/* Tempo Row */}
+           <div className="flex items-center justify-between text-[8px] uppercase tracking-wider text-slate-400 font-medium leading-none">
+               <div className="flex items-center gap-1">
+                  <div ref={beatDotRef} className="w-1.5 h-1.5 rounded-full bg-white shadow-[0_0_6px_rgba(255,255,255,0.9)] opacity-0" />
+                  <span>BPM</span>
+               </div>
+               <span ref={bpmTextRef} className="font-mono text-white">--</span>
+           </div>
            
            {/* Treble Row */}
            <div className="flex flex-col gap-0.5">
@@ -213,8 +1335,91 @@ const App: React.FC = () => {
               </div>
            </div>
 
+           {/* Stereo Row: left grows from the center to the left, right to the right */}
+           <div className="flex flex-col gap-0.5">
+              <div className="flex justify-between text-[8px] uppercase tracking-wider text-slate-400 font-medium leading-none">
+                  <span>L</span>
+                  <span>R</span>
+              </div>
+              <div className="flex gap-px h-1 w-full">
+                  <div className="flex-1 flex justify-end bg-slate-800/80 rounded-l-full overflow-hidden">
+                      <div ref={leftBarRef} className="h-full bg-slate-300 w-0 transition-none" />
+                  </div>
+                  <div className="flex-1 bg-slate-800/80 rounded-r-full overflow-hidden">
+                      <div ref={rightBarRef} className="h-full bg-slate-300 w-0 transition-none" />
+                  </div>
+              </div>
+           </div>
+
         </div>
       </div>
+
+      {/* --- SEED + OVERLAY TOGGLES: Bottom Right --- */}
+      <div className="absolute bottom-4 right-4 z-40 flex items-center gap-1.5">
+        <div className="flex items-center gap-0.5 bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-full p-0.5 pl-2 shadow-xl">
+          <span className="text-[8px] uppercase tracking-wider text-slate-500 font-medium">Seed</span>
+          <input
+            value={seedText ?? formatSeed(seed)}
+            onFocus={() => setSeedText(formatSeed(seed))}
+            onChange={(e) => setSeedText(e.target.value)}
+            onBlur={commitSeed}
+            onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+            spellCheck={false}
+            className={`w-14 bg-transparent text-[9px] font-mono text-center focus:outline-none ${seedOverride !== null ? 'text-cyan-300' : 'text-slate-300'}`}
+            title="Same track + seed = same show. Clear to use the file hash."
+          />
+          <button
+            onClick={() => setSeedOverride(Math.floor(Math.random() * 0x100000000))}
+            className="p-1 rounded-full text-slate-400 hover:text-white hover:bg-white/10 transition-all"
+            title="Random Seed"
+          >
+            <Dices className="w-3 h-3" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-0.5 bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-full p-0.5 shadow-xl">
+          {([
+            ['oscilloscope', 'Oscilloscope Ring', CircleDot],
+            ['spectrumHalo', 'Spectrum Halo', Sun],
+            ['waveform', 'Waveform', AudioWaveform]
+          ] as const).map(([key, label, Icon]) => (
+            <button
+              key={key}
+              onClick={() => setOverlays(prev => ({ ...prev, [key]: !prev[key] }))}
+              className={`p-1 rounded-full transition-all ${overlays[key] ? 'bg-white/20 text-white' : 'text-slate-400 hover:text-white hover:bg-white/10'}`}
+              title={label}
+            >
+              <Icon className="w-3 h-3" />
+            </button>
+          ))}
+          {visualMode === 'winter' && (
+            <>
+              <div className="h-3 w-px bg-white/10 mx-0.5"></div>
+              <button
+                onClick={() => setAutoOrbit(v => !v)}
+                className={`p-1 rounded-full transition-all ${autoOrbit ? 'bg-white/20 text-white' : 'text-slate-400 hover:text-white hover:bg-white/10'}`}
+                title="Auto-Orbit (drag to rotate, scroll to zoom, double click to reset)"
+              >
+                <Orbit className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => setWindBrush(v => !v)}
+                className={`p-1 rounded-full transition-all ${windBrush ? 'bg-white/20 text-white' : 'text-slate-400 hover:text-white hover:bg-white/10'}`}
+                title="Wind Brush (drag to blow the snow around instead of rotating)"
+              >
+                <Wind className="w-3 h-3" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* --- DROP OVERLAY --- */}
+      {isDraggingFiles && (
+        <div className="absolute inset-3 z-[60] pointer-events-none flex items-center justify-center rounded-xl border border-dashed border-cyan-300/40 bg-slate-950/40 backdrop-blur-sm">
+          <span className="text-[11px] uppercase tracking-widest text-cyan-200">Drop to add to queue</span>
+        </div>
+      )}
     </div>
   );
 };
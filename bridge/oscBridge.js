@@ -0,0 +1,325 @@
+/**
+ * OSC <-> WebSocket bridge for driving the visualizer from VJ tools (TouchOSC, Resolume, ...).
+ *
+ *   OSC over UDP (OSC_IN_PORT)  ->  every connected browser, as JSON { address, args }
+ *   JSON from a browser         ->  OSC over UDP to OSC_OUT_HOST:OSC_OUT_PORT (and the other browsers)
+ *
+ * The app publishes its band energies and beats through the same socket, so other tools can
+ * sync to it. Dependency-free (dgram + a minimal RFC 6455 server) so it runs with plain `node`.
+ *
+ * Run with `npm run bridge`. Environment:
+ *   OSC_IN_PORT   UDP port to receive OSC on (default 9000, all interfaces)
+ *   OSC_OUT_HOST  Where published OSC goes (default 127.0.0.1)
+ *   OSC_OUT_PORT  (default 9001)
+ *   BRIDGE_HOST   Interface the WebSocket listens on (default 127.0.0.1)
+ *   BRIDGE_PORT   WebSocket port (default 8787)
+ *   BRIDGE_ALLOWED_ORIGINS  Comma-separated page origins allowed to connect, on top of the Vite
+ *                 dev (port 3000) and preview (port 4173) servers on localhost / 127.0.0.1
+ *
+ * Any web page can open a WebSocket to localhost, so connections from other origins are refused.
+ * Native WebSocket tools send no Origin and are let through.
+ */
+import dgram from 'node:dgram';
+import http from 'node:http';
+import { createHash } from 'node:crypto';
+
+const OSC_IN_PORT = Number(process.env.OSC_IN_PORT || 9000);
+const OSC_OUT_HOST = process.env.OSC_OUT_HOST || '127.0.0.1';
+const OSC_OUT_PORT = Number(process.env.OSC_OUT_PORT || 9001);
+const BRIDGE_HOST = process.env.BRIDGE_HOST || '127.0.0.1';
+const BRIDGE_PORT = Number(process.env.BRIDGE_PORT || 8787);
+const ALLOWED_ORIGINS = new Set([
+  'http://localhost:3000',
+  'http://127.0.0.1:3000',
+  'http://localhost:4173',
+  'http://127.0.0.1:4173',
+  ...(process.env.BRIDGE_ALLOWED_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean)
+]);
+
+// --- OSC ---
+
+const pad4 = (n) => (n + 3) & ~3;
+
+const readString = (buffer, offset) => {
+  const end = buffer.indexOf(0, offset);
+  if (end === -1) throw new Error('Unterminated OSC string');
+  return [buffer.toString('utf8', offset, end), pad4(end + 1)];
+};
+
+const decodeMessage = (buffer) => {
+  const [address, afterAddress] = readString(buffer, 0);
+  const args = [];
+  // Type tags are optional in old OSC 1.0 senders
+  if (afterAddress >= buffer.length) return { address, args };
+  let [tags, offset] = readString(buffer, afterAddress);
+  if (!tags.startsWith(',')) return { address, args };
+
+  for (const tag of tags.slice(1)) {
+    switch (tag) {
+      case 'i': args.push(buffer.readInt32BE(offset)); offset += 4; break;
+      case 'f': args.push(buffer.readFloatBE(offset)); offset += 4; break;
+      case 'd': args.push(buffer.readDoubleBE(offset)); offset += 8; break;
+      case 'h': args.push(Number(buffer.readBigInt64BE(offset))); offset += 8; break;
+      case 's':
+      case 'S': {
+        const [value, next] = readString(buffer, offset);
+        args.push(value);
+        offset = next;
+        break;
+      }
+      case 'T': args.push(true); break;
+      case 'F': args.push(false); break;
+      case 'N':
+      case 'I': break;
+      // Blobs, MIDI, colors and the rest aren't used by any command; stop rather than misread
+      default: return { address, args };
+    }
+  }
+  return { address, args };
+};
+
+/** Messages in a packet, with bundles (any depth) flattened. Timetags are ignored: everything applies now. */
+const decodePacket = (buffer) => {
+  if (buffer.toString('ascii', 0, 8) !== '#bundle\0') return [decodeMessage(buffer)];
+  const messages = [];
+  let offset = 16; // '#bundle\0' + 8 byte timetag
+  while (offset + 4 <= buffer.length) {
+    const size = buffer.readInt32BE(offset);
+    messages.push(...decodePacket(buffer.subarray(offset + 4, offset + 4 + size)));
+    offset += 4 + size;
+  }
+  return messages;
+};
+
+const encodeString = (value) => {
+  const bytes = Buffer.from(value, 'utf8');
+  const padded = Buffer.alloc(pad4(bytes.length + 1));
+  bytes.copy(padded);
+  return padded;
+};
+
+// JSON can't tell ints from floats, so every number goes out as a float
+const encodeMessage = (address, args) => {
+  let tags = ',';
+  const parts = [];
+  for (const arg of args) {
+    if (typeof arg === 'number') {
+      tags += 'f';
+      const part = Buffer.alloc(4);
+      part.writeFloatBE(arg);
+      parts.push(part);
+    } else if (typeof arg === 'boolean') {
+      tags += arg ? 'T' : 'F';
+    } else {
+      tags += 's';
+      parts.push(encodeString(String(arg)));
+    }
+  }
+  return Buffer.concat([encodeString(address), encodeString(tags), ...parts]);
+};
+
+// --- WebSocket ---
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+// Commands are a few hundred bytes of JSON; anything near this is a broken or hostile client
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_TOO_BIG = 1009;
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header.writeUInt16BE(length, 2);
+    header[1] = 126;
+  } else {
+    header = Buffer.alloc(10);
+    header.writeBigUInt64BE(BigInt(length), 2);
+    header[1] = 127;
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+};
+
+const clients = new Set();
+
+const broadcast = (text, except) => {
+  const frame = encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8'));
+  for (const client of clients) {
+    if (client !== except) client.write(frame);
+  }
+};
+
+const closeWith = (socket, code) => {
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(code);
+  socket.end(encodeFrame(OPCODE_CLOSE, payload), () => socket.destroy());
+};
+
+/**
+ * Reads complete frames off a client's buffer, calling `onText` for every complete text message.
+ * Unmasked frames (RFC 6455 requires clients to mask) and messages over MAX_MESSAGE_BYTES close
+ * the connection, so nothing is buffered beyond that.
+ */
+const createFrameReader = (socket, onText) => {
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentsLength = 0;
+  let messageOpcode = OPCODE_TEXT;
+  let closed = false;
+
+  const fail = (code) => {
+    closed = true;
+    pending = Buffer.alloc(0);
+    fragments = [];
+    closeWith(socket, code);
+  };
+
+  return (chunk) => {
+    if (closed) return;
+    pending = Buffer.concat([pending, chunk]);
+    while (pending.length >= 2) {
+      const fin = (pending[0] & 0x80) !== 0;
+      const opcode = pending[0] & 0x0f;
+      const masked = (pending[1] & 0x80) !== 0;
+      let length = pending[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (pending.length < 4) return;
+        length = pending.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (pending.length < 10) return;
+        length = Number(pending.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked) {
+        fail(CLOSE_PROTOCOL_ERROR);
+        return;
+      }
+      // Checked before waiting for the payload, so an announced multi-GB frame is never buffered
+      if (length > MAX_MESSAGE_BYTES || fragmentsLength + length > MAX_MESSAGE_BYTES) {
+        fail(CLOSE_TOO_BIG);
+        return;
+      }
+      const maskOffset = offset;
+      offset += 4;
+      if (pending.length < offset + length) return;
+
+      const payload = Buffer.from(pending.subarray(offset, offset + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= pending[maskOffset + (i % 4)];
+      pending = pending.subarray(offset + length);
+
+      if (opcode === OPCODE_CLOSE) {
+        closed = true;
+        socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+        return;
+      }
+      if (opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, payload));
+        continue;
+      }
+      if (opcode === OPCODE_PONG) continue;
+
+      // Continuation frames (opcode 0) belong to the message the first fragment started
+      if (opcode !== 0) messageOpcode = opcode;
+      fragments.push(payload);
+      fragmentsLength += length;
+      if (fin) {
+        const message = Buffer.concat(fragments);
+        fragments = [];
+        fragmentsLength = 0;
+        // Binary messages aren't part of the protocol
+        if (messageOpcode === OPCODE_TEXT) onText(message.toString('utf8'));
+      }
+    }
+  };
+};
+
+// --- Wiring ---
+
+const udp = dgram.createSocket('udp4');
+
+udp.on('message', (packet, remote) => {
+  try {
+    for (const message of decodePacket(packet)) broadcast(JSON.stringify(message));
+  } catch (error) {
+    console.warn(`Ignoring malformed OSC from ${remote.address}:${remote.port}: ${error.message}`);
+  }
+});
+
+udp.on('error', (error) => {
+  console.error(`OSC socket error: ${error.message}`);
+  process.exit(1);
+});
+
+const handleClientText = (text, socket) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  if (typeof message?.address !== 'string' || !message.address.startsWith('/')) return;
+  const args = Array.isArray(message.args) ? message.args : [];
+  // With a callback, a failed send (e.g. over the UDP size limit) is reported here instead of as a socket error
+  udp.send(encodeMessage(message.address, args), OSC_OUT_PORT, OSC_OUT_HOST, (error) => {
+    if (error) console.warn(`Could not send ${message.address}: ${error.message}`);
+  });
+  // Other browsers (or WebSocket tools) see it too, e.g. a second screen following the first
+  broadcast(JSON.stringify({ address: message.address, args }), socket);
+};
+
+const server = http.createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket only\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.destroy();
+    return;
+  }
+  const { origin } = req.headers;
+  if (origin && !ALLOWED_ORIGINS.has(origin)) {
+    console.warn(`Refused connection from ${origin} (add it to BRIDGE_ALLOWED_ORIGINS to allow it)`);
+    socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n', () => socket.destroy());
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  clients.add(socket);
+  console.log(`Browser connected (${clients.size})`);
+  socket.setNoDelay(true);
+  socket.on('data', createFrameReader(socket, (text) => handleClientText(text, socket)));
+  socket.on('close', () => {
+    clients.delete(socket);
+    console.log(`Browser disconnected (${clients.size})`);
+  });
+  socket.on('error', () => socket.destroy());
+});
+
+udp.bind(OSC_IN_PORT, () => {
+  console.log(`OSC in:   udp://0.0.0.0:${OSC_IN_PORT}`);
+  console.log(`OSC out:  udp://${OSC_OUT_HOST}:${OSC_OUT_PORT}`);
+});
+
+server.listen(BRIDGE_PORT, BRIDGE_HOST, () => {
+  console.log(`Browser:  ws://${BRIDGE_HOST}:${BRIDGE_PORT}`);
+});
@@ -0,0 +1,171 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { AudioChainSettings, EqBand } from '../types';
+import { DEFAULT_AUDIO_CHAIN } from '../utils/audioChain';
+import {
+  AUDIO_EQ_RANGE_DB,
+  AUDIO_FILTER_MAX_HZ,
+  AUDIO_FILTER_MIN_HZ,
+  AUDIO_GAIN_RANGE_DB,
+  AUDIO_PLAYBACK_RATE_RANGE
+} from '../constants';
+
+interface AudioChainPanelProps {
+  settings: AudioChainSettings;
+  onChange: (settings: AudioChainSettings) => void;
+}
+
+const EQ_LABELS = ['Low', 'Lo Mid', 'Hi Mid', 'High'];
+
+// Filter sliders run 0-1 on a log scale, so a sweep spends as long on each octave
+const FILTER_RATIO = AUDIO_FILTER_MAX_HZ / AUDIO_FILTER_MIN_HZ;
+const hzToSlider = (hz: number) => Math.log(hz / AUDIO_FILTER_MIN_HZ) / Math.log(FILTER_RATIO);
+const sliderToHz = (value: number) => AUDIO_FILTER_MIN_HZ * Math.pow(FILTER_RATIO, value);
+
+const formatHz = (hz: number) => hz >= 1000 ? `${(hz / 1000).toFixed(hz >= 10000 ? 0 : 1)}k` : `${Math.round(hz)}`;
+
+const rowClass = "flex items-center gap-1.5 text-[8px] uppercase tracking-wider text-slate-400 font-medium";
+const valueClass = "w-10 text-right font-mono text-cyan-200";
+const numberClass = "w-9 bg-transparent text-right text-[9px] font-mono text-slate-300 focus:outline-none focus:text-white";
+
+// Playback processing between the track and the speakers (file playback only, live input is never played back)
+const AudioChainPanel: React.FC<AudioChainPanelProps> = ({ settings, onChange }) => {
+  const edit = (patch: Partial<AudioChainSettings>) => onChange({ ...settings, ...patch });
+
+  const editBand = (index: number, patch: Partial<EqBand>) => {
+    edit({ eq: settings.eq.map((band, i) => i === index ? { ...band, ...patch } : band) });
+  };
+
+  const setBandNumber = (index: number, key: 'frequency' | 'q', value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed) && parsed > 0) editBand(index, { [key]: parsed });
+  };
+
+  return (
+    <div className="w-64 bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-md shadow-xl overflow-hidden">
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-white/5">
+        <span className="flex-1 text-[8px] uppercase tracking-wider text-slate-400 font-medium">Audio</span>
+        <select
+          value={settings.analyse}
+          onChange={(e) => edit({ analyse: e.target.value as AudioChainSettings['analyse'] })}
+          className="bg-transparent text-[9px] text-slate-300 focus:outline-none cursor-pointer"
+          title="What the visuals react to"
+        >
+          <option value="post" className="bg-slate-900">Visuals: Processed</option>
+          <option value="pre" className="bg-slate-900">Visuals: Source</option>
+        </select>
+        <button
+          onClick={() => onChange(DEFAULT_AUDIO_CHAIN)}
+          className="w-4 h-4 flex items-center justify-center rounded-full text-slate-500 hover:text-white"
+          title="Reset Audio"
+        >
+          <RotateCcw className="w-2.5 h-2.5" />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1 px-2 py-1.5">
+        <label className={rowClass}>
+          <span className="w-14">Gain</span>
+          <input
+            type="range"
+            min={AUDIO_GAIN_RANGE_DB[0]}
+            max={AUDIO_GAIN_RANGE_DB[1]}
+            step={0.5}
+            value={settings.gain}
+            onChange={(e) => edit({ gain: parseFloat(e.target.value) })}
+            className="flex-1 h-1 accent-cyan-300"
+          />
+          <span className={valueClass}>{settings.gain > 0 ? '+' : ''}{settings.gain.toFixed(1)}</span>
+        </label>
+        <label className={rowClass} title="Speed, pitch follows">
+          <span className="w-14">Rate</span>
+          <input
+            type="range"
+            min={AUDIO_PLAYBACK_RATE_RANGE[0]}
+            max={AUDIO_PLAYBACK_RATE_RANGE[1]}
+            step={0.01}
+            value={settings.playbackRate}
+            onChange={(e) => edit({ playbackRate: parseFloat(e.target.value) })}
+            onDoubleClick={() => edit({ playbackRate: 1 })}
+            className="flex-1 h-1 accent-cyan-300"
+          />
+          <span className={valueClass}>{settings.playbackRate.toFixed(2)}x</span>
+        </label>
+        <label className={rowClass}>
+          <span className="w-14">High-Pass</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.001}
+            value={hzToSlider(settings.highpassHz)}
+            onChange={(e) => edit({ highpassHz: sliderToHz(parseFloat(e.target.value)) })}
+            onDoubleClick={() => edit({ highpassHz: AUDIO_FILTER_MIN_HZ })}
+            className="flex-1 h-1 accent-cyan-300"
+          />
+          <span className={valueClass}>{settings.highpassHz <= AUDIO_FILTER_MIN_HZ ? 'Off' : formatHz(settings.highpassHz)}</span>
+        </label>
+        <label className={rowClass}>
+          <span className="w-14">Low-Pass</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.001}
+            value={hzToSlider(settings.lowpassHz)}
+            onChange={(e) => edit({ lowpassHz: sliderToHz(parseFloat(e.target.value)) })}
+            onDoubleClick={() => edit({ lowpassHz: AUDIO_FILTER_MAX_HZ })}
+            className="flex-1 h-1 accent-cyan-300"
+          />
+          <span className={valueClass}>{settings.lowpassHz >= AUDIO_FILTER_MAX_HZ ? 'Off' : formatHz(settings.lowpassHz)}</span>
+        </label>
+      </div>
+
+      {/* Parametric EQ */}
+      <div className="flex items-center gap-1 px-2 py-1 border-t border-white/5 text-[8px] uppercase tracking-wider text-slate-400 font-medium">
+        <span className="flex-1">EQ</span>
+        <span className="w-9 text-right">Hz</span>
+        <span className="w-9 text-right">Q</span>
+      </div>
+      <div className="flex flex-col gap-1 px-2 pb-1.5">
+        {settings.eq.map((band, i) => (
+          <div key={i} className={rowClass}>
+            <span className="w-10">{EQ_LABELS[i] ?? `Band ${i + 1}`}</span>
+            <input
+              type="range"
+              min={-AUDIO_EQ_RANGE_DB}
+              max={AUDIO_EQ_RANGE_DB}
+              step={0.5}
+              value={band.gain}
+              onChange={(e) => editBand(i, { gain: parseFloat(e.target.value) })}
+              onDoubleClick={() => editBand(i, { gain: 0 })}
+              className="flex-1 min-w-0 h-1 accent-cyan-300"
+            />
+            <span className="w-7 text-right font-mono text-cyan-200">{band.gain > 0 ? '+' : ''}{band.gain.toFixed(1)}</span>
+            <input
+              type="number"
+              min={AUDIO_FILTER_MIN_HZ}
+              max={AUDIO_FILTER_MAX_HZ}
+              step={10}
+              value={Math.round(band.frequency)}
+              onChange={(e) => setBandNumber(i, 'frequency', e.target.value)}
+              className={numberClass}
+            />
+            <input
+              type="number"
+              min={0.1}
+              max={18}
+              step={0.1}
+              value={band.q}
+              disabled={band.type !== 'peaking'}
+              onChange={(e) => setBandNumber(i, 'q', e.target.value)}
+              className={`${numberClass} disabled:opacity-30`}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AudioChainPanel;
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { BeatMap, ExportFormat, ExportResolution, OverlaySettings } from '../types';
+import { EXPORT_MIME_TYPES, VideoExportJob, estimateExportBytes, exportVideo, formatBytes } from '../utils/videoExport';
+import { canSaveToDisk, downloadBlob, openSaveFile } from '../utils/download';
+import { EXPORT_FRAME_RATES, EXPORT_MAX_IN_MEMORY_BYTES } from '../constants';
+
+interface ExportPanelProps {
+  audioBuffer: AudioBuffer | null;
+  streamed?: boolean; // The current track streams, so there's no decoded audio to render from
+  beatMap: BeatMap | null;
+  overlays?: OverlaySettings;
+  fileName: string;
+  seed: number;
+  onStart?: () => void;
+}
+
+const RESOLUTION_LABELS: Record<ExportResolution, string> = { '1080p': '1080p', '4k': '4K' };
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ audioBuffer, streamed, beatMap, overlays, fileName, seed, onStart }) => {
+  const [resolution, setResolution] = useState<ExportResolution>('1080p');
+  const [frameRate, setFrameRate] = useState<number>(60);
+  const [format, setFormat] = useState<ExportFormat>('webm');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string>("");
+  const jobRef = useRef<VideoExportJob | null>(null);
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const startExport = async () => {
+    if (!audioBuffer || jobRef.current) return;
+    setError("");
+    const name = `${fileName.replace(/\.[^.]+$/, '') || 'winter-beats'}.${format}`;
+
+    // Where supported the video goes straight to disk, so its size isn't bound by memory
+    let file: FileSystemWritableFileStream | undefined;
+    if (canSaveToDisk()) {
+      try {
+        file = await openSaveFile(name, `${format.toUpperCase()} Video`, EXPORT_MIME_TYPES[format]);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        console.error(err);
+        setError('Could not open the file for saving.');
+        return;
+      }
+    }
+
+    if (onStart) onStart();
+    setProgress(0);
+    const job = exportVideo(audioBuffer, beatMap, { resolution, frameRate, format, seed, overlays }, setProgress, file);
+    jobRef.current = job;
+    job.promise
+      .then(blob => {
+        if (blob) downloadBlob(blob, name);
+      })
+      .catch(err => {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'Export failed');
+      })
+      .finally(() => {
+        if (jobRef.current === job) jobRef.current = null;
+        setProgress(null);
+      });
+  };
+
+  const selectClass = "bg-transparent text-[9px] text-slate-300 focus:outline-none cursor-pointer disabled:opacity-40";
+  const isExporting = progress !== null;
+  const estimate = audioBuffer ? estimateExportBytes(audioBuffer.duration, resolution) : 0;
+  const tooLarge = estimate > EXPORT_MAX_IN_MEMORY_BYTES && !canSaveToDisk();
+
+  return (
+    <div className="w-64 bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-md shadow-xl overflow-hidden">
+      <div className="flex items-center gap-1.5 px-2 py-1 border-b border-white/5">
+        <span className="flex-1 text-[8px] uppercase tracking-wider text-slate-400 font-medium">Export Video</span>
+        <select value={resolution} disabled={isExporting} onChange={(e) => setResolution(e.target.value as ExportResolution)} className={selectClass}>
+          {(Object.keys(RESOLUTION_LABELS) as ExportResolution[]).map(r => (
+            <option key={r} value={r} className="bg-slate-900">{RESOLUTION_LABELS[r]}</option>
+          ))}
+        </select>
+        <select value={frameRate} disabled={isExporting} onChange={(e) => setFrameRate(Number(e.target.value))} className={selectClass}>
+          {EXPORT_FRAME_RATES.map(fps => (
+            <option key={fps} value={fps} className="bg-slate-900">{fps} fps</option>
+          ))}
+        </select>
+        <select value={format} disabled={isExporting} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={selectClass}>
+          <option value="webm" className="bg-slate-900">WebM</option>
+          <option value="mp4" className="bg-slate-900">MP4</option>
+        </select>
+      </div>
+
+      <div className="flex items-center gap-1.5 px-2 py-1.5">
+        {isExporting ? (
+          <>
+            <div className="flex-1 h-1 bg-slate-800/80 rounded-full overflow-hidden">
+              <div className="h-full bg-cyan-400 shadow-[0_0_8px_rgba(34,211,238,0.6)]" style={{ width: `${Math.round(progress * 100)}%` }} />
+            </div>
+            <span className="w-7 text-right text-[9px] font-mono text-slate-400">{Math.round(progress * 100)}%</span>
+            <button
+              onClick={() => jobRef.current?.cancel()}
+              className="w-4 h-4 flex items-center justify-center rounded-full text-slate-500 hover:text-red-300"
+              title="Cancel Export"
+            >
+              <X className="w-2.5 h-2.5" />
+            </button>
+          </>
+        ) : (
+          <>
+            <span className="flex-1 min-w-0 truncate text-[9px] text-slate-500">
+              {audioBuffer ? `${fileName || 'Track'} · Winter${beatMap ? '' : ' · live beat detection'}` : streamed ? 'Streamed tracks can\'t be exported' : 'Load a track to export'}
+            </span>
+            {audioBuffer && (
+              <span
+                className={`text-[9px] font-mono ${tooLarge ? 'text-red-300' : 'text-slate-500'}`}
+                title={tooLarge ? 'Too large to build in memory in this browser' : 'Estimated file size'}
+              >
+                ~{formatBytes(estimate)}
+              </span>
+            )}
+            <button
+              onClick={startExport}
+              disabled={!audioBuffer}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-white/10 text-[9px] text-white hover:bg-white/20 disabled:opacity-30"
+            >
+              <Download className="w-2.5 h-2.5" />
+              Render
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="px-2 pb-1.5 text-[9px] text-red-200">{error}</div>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
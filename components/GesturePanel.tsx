@@ -0,0 +1,114 @@
+import React, { useSyncExternalStore } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { GestureAction, GestureName } from '../types';
+import {
+  GESTURE_ACTION_LABELS,
+  GESTURE_LABELS,
+  GESTURE_NAMES,
+  getGestureBindings,
+  resetGestureBindings,
+  setGestureBinding,
+  subscribeGestureBindings
+} from '../utils/gestureBindings';
+import { GestureDelegate } from '../utils/gestureService';
+
+interface GesturePanelProps {
+  activeGesture: string; // Recognizer category currently shown, highlighted in the list
+  delegate: GestureDelegate;
+  onDelegateChange: (delegate: GestureDelegate) => void;
+}
+
+const ACTIONS = Object.keys(GESTURE_ACTION_LABELS) as GestureAction[];
+
+const numberClass = "w-9 bg-transparent text-right text-[9px] font-mono text-slate-300 focus:outline-none focus:text-white";
+
+// Edits which action each gesture triggers and how deliberately it has to be made
+const GesturePanel: React.FC<GesturePanelProps> = ({ activeGesture, delegate, onDelegateChange }) => {
+  const bindings = useSyncExternalStore(subscribeGestureBindings, getGestureBindings);
+
+  const setNumber = (name: GestureName, key: 'minScore' | 'holdMs' | 'repeatMs', value: string, scale = 1) => {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed) && parsed >= 0) setGestureBinding(name, { [key]: parsed / scale });
+  };
+
+  return (
+    <div className="w-72 bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-md shadow-xl overflow-hidden">
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-white/5 text-[8px] uppercase tracking-wider text-slate-400 font-medium">
+        <span className="flex-1">Gestures</span>
+        <span className="w-9 text-right" title="Minimum recognizer confidence">Conf %</span>
+        <span className="w-9 text-right" title="Hold time before the action fires">Hold ms</span>
+        <span className="w-9 text-right" title="Repeat interval while held, 0 = once">Rpt ms</span>
+        <button
+          onClick={resetGestureBindings}
+          className="w-4 h-4 flex items-center justify-center rounded-full text-slate-500 hover:text-white"
+          title="Reset Bindings"
+        >
+          <RotateCcw className="w-2.5 h-2.5" />
+        </button>
+      </div>
+
+      <ul className="py-0.5">
+        {GESTURE_NAMES.map(name => {
+          const binding = bindings[name];
+          return (
+            <li key={name} className={`flex items-center gap-1 px-2 py-0.5 ${name === activeGesture ? 'bg-fuchsia-500/10' : ''}`}>
+              <span className={`w-14 text-[9px] truncate ${name === activeGesture ? 'text-fuchsia-200' : 'text-slate-400'}`}>
+                {GESTURE_LABELS[name]}
+              </span>
+              <select
+                value={binding.action}
+                onChange={(e) => setGestureBinding(name, { action: e.target.value as GestureAction })}
+                className="flex-1 min-w-0 bg-transparent text-[9px] text-slate-300 focus:outline-none cursor-pointer"
+              >
+                {ACTIONS.map(action => (
+                  <option key={action} value={action} className="bg-slate-900">{GESTURE_ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={5}
+                value={Math.round(binding.minScore * 100)}
+                onChange={(e) => setNumber(name, 'minScore', e.target.value, 100)}
+                className={numberClass}
+              />
+              <input
+                type="number"
+                min={0}
+                step={50}
+                value={binding.holdMs}
+                onChange={(e) => setNumber(name, 'holdMs', e.target.value)}
+                className={numberClass}
+              />
+              <input
+                type="number"
+                min={0}
+                step={50}
+                value={binding.repeatMs}
+                disabled={binding.action === 'freezePan'}
+                onChange={(e) => setNumber(name, 'repeatMs', e.target.value)}
+                className={`${numberClass} disabled:opacity-30`}
+              />
+              <span className="w-4" />
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center gap-1 px-2 py-1 border-t border-white/5 text-[9px] text-slate-400">
+        <span className="flex-1" title="GPU falls back to the CPU when it can't start">Recognizer</span>
+        <select
+          value={delegate}
+          onChange={(e) => onDelegateChange(e.target.value as GestureDelegate)}
+          className="bg-transparent text-[9px] text-slate-300 focus:outline-none cursor-pointer"
+        >
+          <option value="GPU" className="bg-slate-900">GPU</option>
+          <option value="CPU" className="bg-slate-900">CPU</option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default GesturePanel;
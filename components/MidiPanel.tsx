@@ -0,0 +1,129 @@
+import React, { useSyncExternalStore } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { FrequencyBand, MidiLearnTarget } from '../types';
+import {
+  MIDI_CC_TARGETS,
+  MIDI_CC_TARGET_NAMES,
+  getMidiMappings,
+  resetMidiMappings,
+  setMidiMappings,
+  subscribeMidiMappings,
+  unbindMidiCc
+} from '../utils/midiInput';
+
+interface MidiPanelProps {
+  inputs: string[]; // Connected device names
+  learning: MidiLearnTarget | null;
+  onLearn: (target: MidiLearnTarget | null) => void;
+}
+
+const BAND_LABELS: Record<FrequencyBand, string> = { bass: 'Bass', mid: 'Mid', treble: 'High' };
+const BANDS = Object.keys(BAND_LABELS) as FrequencyBand[];
+
+const rowClass = "flex items-center gap-1 px-2 py-0.5";
+const labelClass = "flex-1 text-[9px] text-slate-400 truncate";
+const numberClass = "w-9 bg-transparent text-right text-[9px] font-mono text-slate-300 focus:outline-none focus:text-white";
+
+const learnClass = (active: boolean) =>
+  `w-11 px-1 py-0.5 rounded-full text-[8px] uppercase tracking-wider transition-colors
+  ${active ? 'bg-cyan-500/20 text-cyan-300 animate-pulse' : 'bg-white/5 text-slate-400 hover:text-white hover:bg-white/10'}`;
+
+// Which notes fire which band and which knobs drive which parameter, typed in or learned
+const MidiPanel: React.FC<MidiPanelProps> = ({ inputs, learning, onLearn }) => {
+  const mappings = useSyncExternalStore(subscribeMidiMappings, getMidiMappings);
+
+  const setNote = (band: FrequencyBand, index: 0 | 1, value: string) => {
+    const note = parseInt(value, 10);
+    if (!Number.isInteger(note) || note < 0 || note > 127) return;
+    const range: [number, number] = [mappings.noteRanges[band][0], mappings.noteRanges[band][1]];
+    range[index] = note;
+    if (range[0] > range[1]) range[1 - index] = note;
+    setMidiMappings({ noteRanges: { ...mappings.noteRanges, [band]: range } });
+  };
+
+  const toggleLearn = (target: MidiLearnTarget, active: boolean) => onLearn(active ? null : target);
+
+  return (
+    <div className="w-64 bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-md shadow-xl overflow-hidden">
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-white/5">
+        <span className="flex-1 min-w-0 truncate text-[8px] uppercase tracking-wider text-slate-400 font-medium" title={inputs.join(', ')}>
+          MIDI · {inputs.length > 0 ? inputs.join(', ') : 'No Devices'}
+        </span>
+        <button
+          onClick={resetMidiMappings}
+          className="w-4 h-4 flex items-center justify-center rounded-full text-slate-500 hover:text-white"
+          title="Reset Mappings"
+        >
+          <RotateCcw className="w-2.5 h-2.5" />
+        </button>
+      </div>
+
+      {/* Note ranges (overlaps go to the narrowest range) */}
+      <div className="flex items-center gap-1 px-2 pt-1 text-[8px] uppercase tracking-wider text-slate-400 font-medium">
+        <span className="flex-1">Pads / Keys</span>
+        <span className="w-9 text-right">Low</span>
+        <span className="w-9 text-right">High</span>
+        <span className="w-11"></span>
+      </div>
+      <ul className="pb-1">
+        {BANDS.map(band => {
+          const [low, high] = mappings.noteRanges[band];
+          const active = learning?.type === 'band' && learning.band === band;
+          return (
+            <li key={band} className={rowClass}>
+              <span className={labelClass}>{BAND_LABELS[band]}</span>
+              <input type="number" min={0} max={127} value={low} onChange={(e) => setNote(band, 0, e.target.value)} className={numberClass} />
+              <input type="number" min={0} max={127} value={high} onChange={(e) => setNote(band, 1, e.target.value)} className={numberClass} />
+              <button
+                onClick={() => toggleLearn({ type: 'band', band }, active)}
+                className={learnClass(active)}
+                title="Press the lowest, then the highest note (the same pad twice for one pad)"
+              >
+                {active ? 'Press…' : 'Learn'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Knobs and faders */}
+      <div className="flex items-center gap-1 px-2 pt-1 border-t border-white/5 text-[8px] uppercase tracking-wider text-slate-400 font-medium">
+        <span className="flex-1">Knobs</span>
+        <span className="w-9 text-right">CC</span>
+        <span className="w-11"></span>
+      </div>
+      <ul className="pb-1">
+        {MIDI_CC_TARGET_NAMES.map(target => {
+          const entry = Object.entries(mappings.ccs).find(([, bound]) => bound === target);
+          const active = learning?.type === 'cc' && learning.target === target;
+          return (
+            <li key={target} className={`group/row ${rowClass}`}>
+              <span className={labelClass}>{MIDI_CC_TARGETS[target].label}</span>
+              <span className="w-9 text-right text-[9px] font-mono text-slate-300">
+                {entry ? entry[0] : '–'}
+                {entry && (
+                  <button
+                    onClick={() => unbindMidiCc(target)}
+                    className="ml-0.5 opacity-0 group-hover/row:opacity-100 text-slate-500 hover:text-red-300"
+                    title="Unbind"
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+              <button
+                onClick={() => toggleLearn({ type: 'cc', target }, active)}
+                className={learnClass(active)}
+                title="Move a knob or fader"
+              >
+                {active ? 'Move…' : 'Learn'}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default MidiPanel;
@@ -0,0 +1,201 @@
+import React, { useRef, useState } from 'react';
+import { Shuffle, Repeat, Repeat1, FolderOpen, Upload, Trash2, GripVertical, Link, Radio } from 'lucide-react';
+import { PlaylistTrack, RepeatMode, getTrackSourceName } from '../utils/playlist';
+
+interface PlaylistProps {
+  tracks: PlaylistTrack[];
+  currentId: string | null;
+  loadingId: string | null;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+  onAddFiles: (files: File[]) => void;
+  onAddUrl: (url: string) => void;
+  onToggleShuffle: () => void;
+  onCycleRepeat: () => void;
+  onClear: () => void;
+}
+
+const Playlist: React.FC<PlaylistProps> = ({
+  tracks,
+  currentId,
+  loadingId,
+  shuffle,
+  repeat,
+  onSelect,
+  onRemove,
+  onMove,
+  onAddFiles,
+  onAddUrl,
+  onToggleShuffle,
+  onCycleRepeat,
+  onClear
+}) => {
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [urlText, setUrlText] = useState<string | null>(null); // Non-null while the URL field is open
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from(e.target.files) : [];
+    if (files.length > 0) onAddFiles(files);
+    // Allow picking the same files again
+    e.target.value = '';
+  };
+
+  const submitUrl = () => {
+    if (urlText?.trim()) onAddUrl(urlText.trim());
+    setUrlText(null);
+  };
+
+  const handleRowDrop = (e: React.DragEvent<HTMLLIElement>, index: number) => {
+    const from = dragIndexRef.current;
+    setDropIndex(null);
+    dragIndexRef.current = null;
+    // External file drops bubble up to the app-level drop zone
+    if (from === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (from !== index) onMove(from, index);
+  };
+
+  return (
+    <div className="w-64 bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-md shadow-xl overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-white/5">
+        <span className="flex-1 text-[8px] uppercase tracking-wider text-slate-400 font-medium">
+          Queue · {tracks.length}
+        </span>
+
+        <button
+          onClick={onToggleShuffle}
+          className={`w-4 h-4 flex items-center justify-center rounded-full transition-colors ${shuffle ? 'text-cyan-300' : 'text-slate-500 hover:text-white'}`}
+          title="Shuffle"
+        >
+          <Shuffle className="w-2.5 h-2.5" />
+        </button>
+        <button
+          onClick={onCycleRepeat}
+          className={`w-4 h-4 flex items-center justify-center rounded-full transition-colors ${repeat !== 'off' ? 'text-cyan-300' : 'text-slate-500 hover:text-white'}`}
+          title={`Repeat: ${repeat}`}
+        >
+          {repeat === 'one' ? <Repeat1 className="w-2.5 h-2.5" /> : <Repeat className="w-2.5 h-2.5" />}
+        </button>
+
+        <div className="h-3 w-px bg-white/10 mx-0.5"></div>
+
+        <label className="relative w-4 h-4 flex items-center justify-center rounded-full text-slate-500 hover:text-white cursor-pointer" title="Add Files">
+          <input type="file" accept="audio/*" multiple onChange={handleFiles} className="absolute inset-0 opacity-0 w-full h-full cursor-pointer" />
+          <Upload className="w-2.5 h-2.5" />
+        </label>
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          className="w-4 h-4 flex items-center justify-center rounded-full text-slate-500 hover:text-white"
+          title="Add Folder"
+        >
+          <FolderOpen className="w-2.5 h-2.5" />
+        </button>
+        <button
+          onClick={() => setUrlText(urlText === null ? '' : null)}
+          className={`w-4 h-4 flex items-center justify-center rounded-full ${urlText !== null ? 'text-cyan-300' : 'text-slate-500 hover:text-white'}`}
+          title="Add URL"
+        >
+          <Link className="w-2.5 h-2.5" />
+        </button>
+        {/* webkitdirectory isn't in React's input typings */}
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={handleFiles}
+          className="hidden"
+          {...{ webkitdirectory: '', directory: '' }}
+        />
+        <button
+          onClick={onClear}
+          disabled={tracks.length === 0}
+          className="w-4 h-4 flex items-center justify-center rounded-full text-slate-500 hover:text-red-300 disabled:opacity-30"
+          title="Clear Queue"
+        >
+          <Trash2 className="w-2.5 h-2.5" />
+        </button>
+      </div>
+
+      {/* URL Entry (streamed, so it must be same-origin or served with CORS headers) */}
+      {urlText !== null && (
+        <div className="flex items-center gap-1 px-2 py-1 border-b border-white/5">
+          <input
+            autoFocus
+            value={urlText}
+            onChange={(e) => setUrlText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitUrl();
+              if (e.key === 'Escape') setUrlText(null);
+            }}
+            placeholder="https://… or /media/mix.mp3"
+            spellCheck={false}
+            className="flex-1 min-w-0 bg-transparent text-[9px] font-mono text-slate-300 placeholder:text-slate-600 focus:outline-none"
+          />
+          <button
+            onClick={submitUrl}
+            disabled={!urlText.trim()}
+            className="px-1.5 py-0.5 rounded-full bg-white/10 text-[9px] text-white hover:bg-white/20 disabled:opacity-30"
+          >
+            Add
+          </button>
+        </div>
+      )}
+
+      {/* Tracks */}
+      {tracks.length === 0 ? (
+        <div className="px-2 py-3 text-center text-[9px] text-slate-500">
+          Drop audio files or a folder anywhere
+        </div>
+      ) : (
+        <ul className="max-h-48 overflow-y-auto py-0.5">
+          {tracks.map((track, index) => {
+            const isCurrent = track.id === currentId;
+            return (
+              <li
+                key={track.id}
+                draggable
+                onDragStart={(e) => { dragIndexRef.current = index; e.dataTransfer.effectAllowed = 'move'; }}
+                onDragOver={(e) => { if (dragIndexRef.current !== null) { e.preventDefault(); setDropIndex(index); } }}
+                onDragLeave={() => setDropIndex(null)}
+                onDrop={(e) => handleRowDrop(e, index)}
+                onDragEnd={() => { dragIndexRef.current = null; setDropIndex(null); }}
+                onDoubleClick={() => onSelect(track.id)}
+                className={`group/row flex items-center gap-1 px-1 py-0.5 text-[9px] cursor-default border-t
+                  ${dropIndex === index ? 'border-cyan-300/60' : 'border-transparent'}
+                  ${isCurrent ? 'bg-cyan-500/10 text-cyan-200' : 'text-slate-400 hover:bg-white/5 hover:text-white'}`}
+              >
+                <GripVertical className="w-2.5 h-2.5 shrink-0 text-slate-600 cursor-grab" />
+                <span className="w-4 shrink-0 text-right font-mono text-slate-600">{index + 1}</span>
+                <button onClick={() => onSelect(track.id)} className="flex-1 min-w-0 text-left truncate" title={getTrackSourceName(track)}>
+                  {track.name}
+                </button>
+                {track.stream && (
+                  <span className="shrink-0 text-slate-600" title="Streamed (no beat map or export)">
+                    <Radio className="w-2.5 h-2.5" />
+                  </span>
+                )}
+                {loadingId === track.id && <span className="shrink-0 text-[8px] text-slate-500 animate-pulse">…</span>}
+                <button
+                  onClick={() => onRemove(track.id)}
+                  className="shrink-0 w-3 h-3 flex items-center justify-center opacity-0 group-hover/row:opacity-100 text-slate-500 hover:text-red-300"
+                  title="Remove"
+                >
+                  ×
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Playlist;
@@ -1,119 +1,169 @@
 import React, { useEffect, useRef } from 'react';
-import { Particle } from '../types';
+import { BeatInfo, BeatMap, BandDefinition, AudioData, OverlaySettings, GestureAction } from '../types';
 import { analyzeAudio } from '../utils/audioUtils';
-import { getGestureRecognizer } from '../utils/gestureService';
-import { GestureRecognizer } from '@mediapipe/tasks-vision';
-import {
-  MAX_PARTICLES_PER_FIREWORK,
-  MIN_PARTICLES_PER_FIREWORK,
-  ENERGY_MULTIPLIER,
-  BEAT_THRESHOLD_INIT,
-  BEAT_DECAY_RATE,
-  GRAVITY,
-  FRICTION,
-  FADE_SPEED_BASE,
-  FADE_SPEED_VAR
-} from '../constants';
+import { StereoAnalysis, createStereoAnalysis } from '../utils/stereoAnalysis';
+import { BeatTracker, createBeatTracker } from '../utils/beatTracker';
+import { BeatMapCursor, createBeatMapCursor } from '../utils/beatMap';
+import { BandAnalyzer, createBandAnalyzer } from '../utils/frequencyBands';
+import { describeCameraError, getGestureRecognizer, GestureDelegate, LoadedGestureRecognizer } from '../utils/gestureService';
+import { GestureInterpreter, createGestureInterpreter } from '../utils/gestureBindings';
+import { HandInteractions, createHandInteractions } from '../utils/handInteractions';
+import { PointerBrush, createPointerBrush, getTapBurst } from '../utils/pointerBrush';
+import { SceneEngine, createSceneEngine } from '../utils/sceneEngine';
+import { emitAnalysisFrame, subscribeTriggers } from '../utils/visualizerBus';
+import { GestureRecognizer, NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { GESTURE_PAN_MAX_OFFSET, HAND_PREVIEW_WIDTH } from '../constants';
 
 interface VisualizerProps {
   audioContext: AudioContext | null;
   analyser: AnalyserNode | null;
   isPlaying: boolean;
+  // Pre-analyzed beat map of the current track; when set, spawns are scheduled from it
+  beatMap?: BeatMap | null;
+  getTrackTime?: () => number;
+  bands?: BandDefinition[]; // Analysis bands in Hz (defaults to DEFAULT_BANDS)
+  overlays?: OverlaySettings;
+  seed?: number; // Show seed; playback from the top replays the same show
   onGestureChange?: (gesture: string) => void;
-  onCameraStatusChange?: (ready: boolean, status: string) => void;
-}
-
-type FrequencyBand = 'bass' | 'mid' | 'treble';
-
-interface NeonParticle extends Particle {
-  hue: number;
-  vertices: { x: number; y: number }[];
-  spinSpeed: number;
-  angle: number;
-}
-
-interface Rib {
-  pos: number;
-  length: number;
-  angle: number;
-  subRibs?: number;
-}
-
-interface SnowflakeBlueprint {
-  armLength: number;
-  centerPlateSize: number;
-  ribs: Rib[];
-  tipShape: 'point' | 'fork' | 'star';
+  // Bound actions as they fire; scene actions (burst, palette, view reset) are already applied
+  onGestureAction?: (action: GestureAction) => void;
+  gestureDelegate?: GestureDelegate; // Preferred recognizer backend, falls back to the CPU
+  // `failed` marks error states (model didn't load, camera denied or missing)
+  onCameraStatusChange?: (ready: boolean, status: string, failed?: boolean) => void;
+  // UI Refs for real-time updates (High performance, no re-renders)
+  bassBarRef?: React.RefObject<HTMLDivElement | null>;
+  midBarRef?: React.RefObject<HTMLDivElement | null>;
+  trebleBarRef?: React.RefObject<HTMLDivElement | null>;
+  bassTextRef?: React.RefObject<HTMLSpanElement | null>;
+  midTextRef?: React.RefObject<HTMLSpanElement | null>;
+  trebleTextRef?: React.RefObject<HTMLSpanElement | null>;
+  bpmTextRef?: React.RefObject<HTMLSpanElement | null>;
+  beatDotRef?: React.RefObject<HTMLDivElement | null>;
+  leftBarRef?: React.RefObject<HTMLDivElement | null>; // Stereo channel levels
+  rightBarRef?: React.RefObject<HTMLDivElement | null>;
+  gestureProgressRef?: React.RefObject<HTMLDivElement | null>; // Hold progress of the current gesture
 }
 
 const PsychedelicVisualizer: React.FC<VisualizerProps> = ({ 
   audioContext, 
   analyser, 
   isPlaying,
+  beatMap,
+  getTrackTime,
+  bands,
+  overlays,
+  seed = 0,
   onGestureChange,
-  onCameraStatusChange
+  onGestureAction,
+  gestureDelegate,
+  onCameraStatusChange,
+  bassBarRef,
+  midBarRef,
+  trebleBarRef,
+  bassTextRef,
+  midTextRef,
+  trebleTextRef,
+  bpmTextRef,
+  beatDotRef,
+  leftBarRef,
+  rightBarRef,
+  gestureProgressRef
 }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
   const animationIdRef = useRef<number>(0);
-  const particlesRef = useRef<NeonParticle[]>([]);
+  const engineRef = useRef<SceneEngine | null>(null);
   
   const dataArrayRef = useRef<Uint8Array | null>(null);
+  const timeDomainArrayRef = useRef<Uint8Array | null>(null);
+  const stereoRef = useRef<StereoAnalysis | null>(null);
+  const overlaysRef = useRef(overlays);
   const gestureRecognizerRef = useRef<GestureRecognizer | null>(null);
   const lastVideoTimeRef = useRef<number>(-1);
   const isCameraReadyRef = useRef<boolean>(false);
   const lastDetectedGestureRef = useRef<string>('None');
-
-  const avgBassRef = useRef<number>(0);
-  const avgMidRef = useRef<number>(0);
-  const avgTrebleRef = useRef<number>(0);
-  const bassThresholdRef = useRef<number>(BEAT_THRESHOLD_INIT);
-  const midThresholdRef = useRef<number>(BEAT_THRESHOLD_INIT);
-  const trebleThresholdRef = useRef<number>(BEAT_THRESHOLD_INIT);
-  const lastSpawnTimeRef = useRef<number>(0);
+  const gestureInterpreterRef = useRef<GestureInterpreter>(createGestureInterpreter());
+  const handInteractionsRef = useRef<HandInteractions>(createHandInteractions());
+  const pointerBrushRef = useRef<PointerBrush>(createPointerBrush());
+  const onGestureActionRef = useRef(onGestureAction);
+
+  const beatTrackerRef = useRef<BeatTracker>(createBeatTracker());
+  const bandAnalyzerRef = useRef<BandAnalyzer>(createBandAnalyzer(bands));
+  const beatMapCursorRef = useRef<BeatMapCursor | null>(null);
+  const getTrackTimeRef = useRef(getTrackTime);
+  const lastFrameTimeRef = useRef<number>(performance.now());
+  const seedRef = useRef(seed);
 
   const isFrozenRef = useRef<boolean>(false);
-  const cameraOffsetRef = useRef<{ x: number, y: number }>({ x: 0, y: 0 });
   const targetOffsetRef = useRef<{ x: number, y: number }>({ x: 0, y: 0 });
+  const viewRef = useRef<{ zoom: number, roll: number }>({ zoom: 1, roll: 0 });
 
   const analyserRef = useRef(analyser);
   const isPlayingRef = useRef(isPlaying);
   const audioContextRef = useRef(audioContext);
   
   useEffect(() => { analyserRef.current = analyser; }, [analyser]);
-  useEffect(() => { isPlayingRef.current = isPlaying; }, [isPlaying]);
+  useEffect(() => {
+    isPlayingRef.current = isPlaying;
+    if (!isPlaying) beatTrackerRef.current.reset();
+    if (isPlaying && (getTrackTime?.() ?? 0) < 0.1) engineRef.current?.restart(seedRef.current);
+  }, [isPlaying]);
+  useEffect(() => {
+    seedRef.current = seed;
+    engineRef.current?.reseed(seed);
+  }, [seed]);
   useEffect(() => { audioContextRef.current = audioContext; }, [audioContext]);
+  useEffect(() => { getTrackTimeRef.current = getTrackTime; }, [getTrackTime]);
+  useEffect(() => { overlaysRef.current = overlays; }, [overlays]);
+  useEffect(() => { onGestureActionRef.current = onGestureAction; }, [onGestureAction]);
+  useEffect(() => { bandAnalyzerRef.current = createBandAnalyzer(bands); }, [bands]);
+  useEffect(() => {
+    beatMapCursorRef.current = beatMap ? createBeatMapCursor(beatMap) : null;
+  }, [beatMap]);
 
   useEffect(() => {
     let stream: MediaStream | null = null;
     let isMounted = true;
 
     const startWebcam = async () => {
+      if (onCameraStatusChange) onCameraStatusChange(false, 'Loading Neon AI...');
+
+      let loaded: LoadedGestureRecognizer;
       try {
-        if (onCameraStatusChange) onCameraStatusChange(false, 'Loading Neon AI...');
+        loaded = await getGestureRecognizer(gestureDelegate);
+      } catch (error) {
+        console.error('Gesture model failed to load', error);
+        if (isMounted && onCameraStatusChange) onCameraStatusChange(false, 'Gesture Model Failed', true);
+        return;
+      }
+      if (!isMounted) return;
 
-        const recognizer = await getGestureRecognizer();
-        
-        if (!isMounted) return;
+      if (!navigator.mediaDevices?.getUserMedia) {
+        // Only exposed in secure contexts (https or localhost)
+        if (onCameraStatusChange) onCameraStatusChange(false, 'Camera Needs HTTPS', true);
+        return;
+      }
 
-        gestureRecognizerRef.current = recognizer;
+      try {
         if (onCameraStatusChange) onCameraStatusChange(false, 'Starting Camera...');
 
         stream = await navigator.mediaDevices.getUserMedia({ video: true });
         
         if (!isMounted) { stream.getTracks().forEach(t => t.stop()); return; }
 
+        gestureRecognizerRef.current = loaded.recognizer;
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
           videoRef.current.onloadeddata = () => {
              if (isMounted) {
                  isCameraReadyRef.current = true;
-                 if (onCameraStatusChange) onCameraStatusChange(true, 'Ready');
+                 if (onCameraStatusChange) onCameraStatusChange(true, `Ready · ${loaded.delegate}`);
              }
           };
         }
       } catch (error) {
-        if (isMounted && onCameraStatusChange) onCameraStatusChange(false, 'Camera Error');
+        if (isMounted && onCameraStatusChange) onCameraStatusChange(false, describeCameraError(error), true);
       }
     };
 
@@ -123,179 +173,105 @@ const PsychedelicVisualizer: React.FC<VisualizerProps> = ({
       isMounted = false;
       if (stream) stream.getTracks().forEach(track => track.stop());
       gestureRecognizerRef.current = null;
+      isCameraReadyRef.current = false;
     };
-  }, []);
+  }, [gestureDelegate]);
 
   useEffect(() => {
-    if (analyser) {
-      dataArrayRef.current = new Uint8Array(analyser.frequencyBinCount);
-    }
+    if (!analyser) return;
+    dataArrayRef.current = new Uint8Array(analyser.frequencyBinCount);
+    timeDomainArrayRef.current = new Uint8Array(analyser.fftSize);
+    const stereo = createStereoAnalysis(analyser);
+    stereoRef.current = stereo;
+    return () => {
+      stereo.dispose();
+      stereoRef.current = null;
+    };
   }, [analyser]);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const resizeCanvas = () => {
-      const dpr = window.devicePixelRatio || 1;
-      canvas.width = window.innerWidth * dpr;
-      canvas.height = window.innerHeight * dpr;
-      canvas.style.width = `${window.innerWidth}px`;
-      canvas.style.height = `${window.innerHeight}px`;
-      ctx.scale(dpr, dpr);
-    };
-    window.addEventListener('resize', resizeCanvas);
-    resizeCanvas();
+    const container = containerRef.current;
+    if (!container) return;
 
-    const createShard = (size: number) => {
-        const points = [];
-        const sides = Math.floor(Math.random() * 3) + 3;
-        for (let i = 0; i < sides; i++) {
-            const angle = (i / sides) * Math.PI * 2;
-            const r = size * (0.5 + Math.random() * 0.5);
-            points.push({ x: Math.cos(angle) * r, y: Math.sin(angle) * r });
-        }
-        return points;
-    };
-
-    const spawnNeonSnowflake = (type: FrequencyBand, intensity: number) => {
-        if (particlesRef.current.length > 2000) return;
-        lastSpawnTimeRef.current = Date.now();
+    // Spawning, physics and drawing run in a worker when the browser supports OffscreenCanvas
+    const engine = createSceneEngine('neon', container, seedRef.current, 'absolute top-0 left-0 w-full h-full pointer-events-none');
+    engineRef.current = engine;
 
-        const spreadX = window.innerWidth * 0.7;
-        const spreadY = window.innerHeight * 0.5;
-        
-        const startX = (Math.random() - 0.5) * spreadX;
-        const startY = (Math.random() - 0.5) * spreadY;
-        const startZ = (Math.random() - 0.5) * 400; 
-
-        let baseHue = 0;
-        switch(type) {
-            case 'bass': baseHue = 280; break;
-            case 'mid': baseHue = 180; break;
-            case 'treble': baseHue = 320; break;
-        }
-        baseHue = (baseHue + Date.now() * 0.05) % 360;
+    const resizeCanvas = () => engine.resize(window.innerWidth, window.innerHeight, window.devicePixelRatio || 1);
+    window.addEventListener('resize', resizeCanvas);
+    resizeCanvas();
 
-        // --- SIZE VARIATION LOGIC ---
-        // Range 0.3x to 2.5x
-        const randomScale = 0.3 + Math.random() * 2.2; 
-        const scale = randomScale * (0.8 + intensity * 0.4);
+    // MIDI pads and remote control fire snowflakes alongside the music's
+    const unsubscribeTriggers = subscribeTriggers(options => engine.burst(options));
 
-        const speedBase = ENERGY_MULTIPLIER * (0.5 + intensity * 0.5);
-        
-        // --- BLUEPRINT ---
-        const blueprint: SnowflakeBlueprint = {
-            armLength: 1.0,
-            centerPlateSize: Math.random() < 0.3 ? 0.15 + Math.random() * 0.1 : 0,
-            ribs: [],
-            tipShape: Math.random() > 0.5 ? 'point' : 'fork'
-        };
-
-        const numRibs = Math.floor(Math.random() * 4) + 2;
-        for (let r = 0; r < numRibs; r++) {
-            const pos = 0.2 + (r / numRibs) * 0.6; 
-            const maxLen = (1 - pos) * 0.6; 
-            const len = maxLen * (0.4 + Math.random() * 0.6);
-            blueprint.ribs.push({
-                pos, length: len, angle: Math.PI / 3, subRibs: len > 0.3 ? Math.floor(Math.random() * 3) : 0
-            });
+    // --- Touch: tap to spawn, drag to blow the shards around ---
+    const brush = pointerBrushRef.current;
+    let lastAnalysis: AudioData | null = null;
+    const handlePointerDown = (e: PointerEvent) => {
+        container.setPointerCapture(e.pointerId);
+        brush.pointerDown(e.pointerId, e.clientX, e.clientY, performance.now());
+    };
+    const handlePointerMove = (e: PointerEvent) => brush.pointerMove(e.pointerId, e.clientX, e.clientY);
+    const handlePointerUp = (e: PointerEvent) => {
+        const tap = brush.pointerUp(e.pointerId, performance.now());
+        if (tap) engine.burst(getTapBurst(tap, lastAnalysis));
+    };
+    const handlePointerCancel = (e: PointerEvent) => brush.pointerCancel(e.pointerId);
+    container.addEventListener('pointerdown', handlePointerDown);
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerup', handlePointerUp);
+    container.addEventListener('pointercancel', handlePointerCancel);
+
+    // Beat source: the pre-analyzed beat map when there is one (scheduled ahead of the audio),
+    // otherwise the live onset detector.
+    const getBeat = (frequencyData: Uint8Array, audioCtx: AudioContext): BeatInfo => {
+        const now = performance.now();
+        const frameDuration = Math.min(0.1, (now - lastFrameTimeRef.current) / 1000);
+        lastFrameTimeRef.current = now;
+
+        const cursor = beatMapCursorRef.current;
+        const getTime = getTrackTimeRef.current;
+        if (cursor && getTime) {
+            // Compensate output latency so spawns line up with what the audience hears
+            const trackTime = getTime() - (audioCtx.outputLatency || audioCtx.baseLatency || 0);
+            return cursor.advance(trackTime, frameDuration);
         }
+        return beatTrackerRef.current.process(frequencyData, audioCtx.currentTime, audioCtx.sampleRate);
+    };
 
-        const arms = 6;
-        const particleBudgetBase = MIN_PARTICLES_PER_FIREWORK + (MAX_PARTICLES_PER_FIREWORK - MIN_PARTICLES_PER_FIREWORK) * intensity;
-        const totalParticles = particleBudgetBase * Math.sqrt(scale);
-        
-        const points: {x: number, y: number}[] = [];
-
-        const addLine = (x1: number, y1: number, x2: number, y2: number) => {
-            const dist = Math.hypot(x2 - x1, y2 - y1);
-            const count = Math.max(2, Math.floor(dist * 60)); 
-            for(let i=0; i<=count; i++) {
-                const t = i/count;
-                points.push({
-                    x: x1 + (x2 - x1) * t,
-                    y: y1 + (y2 - y1) * t
-                });
-            }
-        };
-
-        if (blueprint.centerPlateSize > 0) {
-             const s = blueprint.centerPlateSize;
-             const plateAngle = Math.PI / 6;
-             addLine(s * Math.cos(plateAngle), s * Math.sin(plateAngle), s * Math.cos(-plateAngle), s * Math.sin(-plateAngle));
+    // Mirrored camera frame with the tracked hands, so performers see what the camera sees
+    const drawHandPreview = (video: HTMLVideoElement, hands: NormalizedLandmark[][]) => {
+        const preview = previewRef.current;
+        const ctx = preview?.getContext('2d');
+        if (!preview || !ctx || !video.videoWidth) return;
+        const width = HAND_PREVIEW_WIDTH;
+        const height = Math.round(width * video.videoHeight / video.videoWidth);
+        if (preview.width !== width || preview.height !== height) {
+            preview.width = width;
+            preview.height = height;
+            preview.style.display = '';
         }
 
-        addLine(0, 0, blueprint.armLength, 0);
-
-        blueprint.ribs.forEach(rib => {
-            const rx = rib.pos + rib.length * Math.cos(rib.angle);
-            const ry = rib.length * Math.sin(rib.angle);
-            addLine(rib.pos, 0, rx, ry);
-            
-            if (rib.subRibs) {
-                for(let sr=1; sr<=rib.subRibs; sr++) {
-                    const t = sr / (rib.subRibs + 1);
-                    const sx = rib.pos + (rx - rib.pos) * t;
-                    const sy = 0 + (ry - 0) * t;
-                    addLine(sx, sy, sx + rib.length*0.3, sy);
-                }
-            }
-
-            const lx = rib.pos + rib.length * Math.cos(-rib.angle);
-            const ly = rib.length * Math.sin(-rib.angle);
-            addLine(rib.pos, 0, lx, ly);
-
-             if (rib.subRibs) {
-                for(let sr=1; sr<=rib.subRibs; sr++) {
-                    const t = sr / (rib.subRibs + 1);
-                    const sx = rib.pos + (lx - rib.pos) * t;
-                    const sy = 0 + (ly - 0) * t;
-                    addLine(sx, sy, sx + rib.length*0.3, sy);
-                }
-            }
-        });
-
-        const totalPointsNeeded = points.length * arms;
-        const skipRatio = totalPointsNeeded > totalParticles ? 1 - (totalParticles / totalPointsNeeded) : 0;
-
-        for (let i = 0; i < arms; i++) {
-            const armRotation = (i / arms) * Math.PI * 2;
-            const cosA = Math.cos(armRotation);
-            const sinA = Math.sin(armRotation);
-
-            for (const pt of points) {
-                if (skipRatio > 0 && Math.random() < skipRatio) continue;
-
-                // Apply Scale here
-                const fx = (pt.x * cosA - pt.y * sinA) * scale;
-                const fy = (pt.x * sinA + pt.y * cosA) * scale;
-                const fz = 0;
-
-                const vx = fx * speedBase;
-                const vy = fy * speedBase;
-                const vz = fz * speedBase;
-                
-                const size = (Math.random() * 4 + 1) * scale; // Scale shard size
-
-                particlesRef.current.push({
-                    x: startX, y: startY, z: startZ,
-                    vx, vy, vz,
-                    alpha: 1,
-                    size: size,
-                    color: '', 
-                    hue: (baseHue + Math.random() * 40 - 20) % 360,
-                    life: 1.0,
-                    decayRate: FADE_SPEED_BASE + (Math.random() * FADE_SPEED_VAR),
-                    shimmerOffset: Math.random() * Math.PI * 2,
-                    vertices: createShard(size),
-                    spinSpeed: (Math.random() - 0.5) * 0.2,
-                    angle: Math.random() * Math.PI * 2
-                });
+        ctx.save();
+        ctx.translate(width, 0);
+        ctx.scale(-1, 1);
+        ctx.clearRect(0, 0, width, height);
+        ctx.globalAlpha = 0.35;
+        ctx.drawImage(video, 0, 0, width, height);
+        ctx.globalAlpha = 1;
+        ctx.strokeStyle = 'rgba(240, 171, 252, 0.9)';
+        ctx.fillStyle = 'white';
+        ctx.lineWidth = 1;
+        for (const landmarks of hands) {
+            ctx.beginPath();
+            for (const { start, end } of GestureRecognizer.HAND_CONNECTIONS) {
+                ctx.moveTo(landmarks[start].x * width, landmarks[start].y * height);
+                ctx.lineTo(landmarks[end].x * width, landmarks[end].y * height);
             }
+            ctx.stroke();
+            for (const point of landmarks) ctx.fillRect(point.x * width - 1, point.y * height - 1, 2, 2);
         }
+        ctx.restore();
     };
 
     const detectGestures = () => {
@@ -307,34 +283,47 @@ const PsychedelicVisualizer: React.FC<VisualizerProps> = ({
         try {
             const result = gestureRecognizerRef.current.recognizeForVideo(video, Date.now());
 
-            let gesture = "None";
-            if (result.gestures.length > 0) {
-                gesture = result.gestures[0][0].categoryName;
-                
-                if (gesture === "Open_Palm") {
-                    isFrozenRef.current = true;
-                    const landmarks = result.landmarks[0];
-                    if (landmarks && landmarks.length > 0) {
-                        const hx = landmarks[9].x;
-                        const hy = landmarks[9].y;
-                        const maxOffset = 300;
-                        targetOffsetRef.current = {
-                            x: (0.5 - hx) * maxOffset * 2,
-                            y: (0.5 - hy) * maxOffset * 2
-                        };
-                    }
-                } else {
-                    isFrozenRef.current = false;
-                    targetOffsetRef.current = { x: 0, y: 0 };
+            const top = result.gestures.length > 0 ? result.gestures[0][0] : null;
+            const gesture = top ? top.categoryName : "None";
+            const state = gestureInterpreterRef.current.update(gesture, top ? top.score : 0, performance.now());
+
+            // Landmark interactions: pinch to spawn at the fingertips, two hands to zoom and roll
+            const hands = handInteractionsRef.current.update(result.landmarks, result.handedness.map(h => h[0]?.categoryName ?? ''));
+            for (const pinch of hands.pinches) {
+                engine.burst({ at: { x: pinch.x * window.innerWidth, y: pinch.y * window.innerHeight } });
+            }
+            viewRef.current = { zoom: hands.zoom, roll: hands.roll };
+            drawHandPreview(video, result.landmarks);
+
+            isFrozenRef.current = state.action === 'freezePan' && state.active;
+            if (isFrozenRef.current) {
+                // Keeps the last target through recognizer dropouts
+                const landmarks = result.landmarks[0];
+                if (landmarks && landmarks.length > 0) {
+                    const hx = landmarks[9].x;
+                    const hy = landmarks[9].y;
+                    targetOffsetRef.current = {
+                        x: (0.5 - hx) * GESTURE_PAN_MAX_OFFSET * 2,
+                        y: (0.5 - hy) * GESTURE_PAN_MAX_OFFSET * 2
+                    };
                 }
             } else {
-                isFrozenRef.current = false;
                 targetOffsetRef.current = { x: 0, y: 0 };
             }
 
-            if (gesture !== lastDetectedGestureRef.current) {
-                lastDetectedGestureRef.current = gesture;
-                if (onGestureChange) onGestureChange(gesture);
+            if (gestureProgressRef?.current) gestureProgressRef.current.style.width = `${state.progress * 100}%`;
+            if (state.fired) {
+                if (state.fired === 'burst') engine.burst();
+                else if (state.fired === 'switchPalette') engine.cyclePalette();
+                else if (state.fired === 'resetView') handInteractionsRef.current.resetView();
+                onGestureActionRef.current?.(state.fired);
+            }
+
+            // The held gesture rides out dropouts, so the hint doesn't flicker
+            const shown = state.gesture ?? gesture;
+            if (shown !== lastDetectedGestureRef.current) {
+                lastDetectedGestureRef.current = shown;
+                if (onGestureChange) onGestureChange(shown);
             }
         } catch (e) {
             // ignore
@@ -344,118 +333,50 @@ const PsychedelicVisualizer: React.FC<VisualizerProps> = ({
     const render = () => {
         detectGestures();
 
-        cameraOffsetRef.current.x += (targetOffsetRef.current.x - cameraOffsetRef.current.x) * 0.1;
-        cameraOffsetRef.current.y += (targetOffsetRef.current.y - cameraOffsetRef.current.y) * 0.1;
+        let analysis: AudioData | null = null;
+        let beat: BeatInfo | null = null;
+        if (analyserRef.current && dataArrayRef.current && timeDomainArrayRef.current && isPlayingRef.current && audioContextRef.current?.state === 'running') {
+            analysis = analyzeAudio(analyserRef.current, dataArrayRef.current, timeDomainArrayRef.current, bandAnalyzerRef.current, stereoRef.current ?? undefined);
 
-        ctx.fillStyle = 'rgba(10, 5, 20, 0.2)'; 
-        ctx.fillRect(0, 0, window.innerWidth, window.innerHeight);
+            if (bassBarRef?.current) bassBarRef.current.style.width = `${Math.min(100, (analysis.bassEnergy / 255) * 100)}%`;
+            if (midBarRef?.current) midBarRef.current.style.width = `${Math.min(100, (analysis.midEnergy / 255) * 100)}%`;
+            if (trebleBarRef?.current) trebleBarRef.current.style.width = `${Math.min(100, (analysis.trebleEnergy / 255) * 100)}%`;
 
-        let energy = 0;
-        if (analyserRef.current && dataArrayRef.current && isPlayingRef.current && audioContextRef.current?.state === 'running') {
-            const analysis = analyzeAudio(analyserRef.current, dataArrayRef.current);
-            energy = analysis.energy;
+            if (bassTextRef?.current) bassTextRef.current.innerText = Math.floor(analysis.bassEnergy).toString();
+            if (midTextRef?.current) midTextRef.current.innerText = Math.floor(analysis.midEnergy).toString();
+            if (trebleTextRef?.current) trebleTextRef.current.innerText = Math.floor(analysis.trebleEnergy).toString();
+            if (leftBarRef?.current) leftBarRef.current.style.width = `${Math.min(100, ((analysis.stereo?.left ?? 0) / 255) * 100)}%`;
+            if (rightBarRef?.current) rightBarRef.current.style.width = `${Math.min(100, ((analysis.stereo?.right ?? 0) / 255) * 100)}%`;
             
-            if (!isFrozenRef.current) {
-                const now = Date.now();
-                const timeSinceLast = now - lastSpawnTimeRef.current;
-                let spawned = false;
-
-                if (analysis.bassEnergy > avgBassRef.current * bassThresholdRef.current && analysis.bassEnergy > 25) {
-                    spawnNeonSnowflake('bass', Math.min(analysis.bassEnergy / 255, 1));
-                    bassThresholdRef.current = BEAT_THRESHOLD_INIT * 1.5;
-                    spawned = true;
-                } else {
-                    bassThresholdRef.current = Math.max(BEAT_THRESHOLD_INIT, bassThresholdRef.current * BEAT_DECAY_RATE);
-                }
-
-                if (!spawned && analysis.midEnergy > avgMidRef.current * midThresholdRef.current && analysis.midEnergy > 20) {
-                    spawnNeonSnowflake('mid', Math.min(analysis.midEnergy / 255, 1));
-                    midThresholdRef.current = BEAT_THRESHOLD_INIT * 1.5;
-                    spawned = true;
-                } else {
-                    midThresholdRef.current = Math.max(BEAT_THRESHOLD_INIT, midThresholdRef.current * BEAT_DECAY_RATE);
-                }
-
-                if (!spawned && analysis.trebleEnergy > avgTrebleRef.current * trebleThresholdRef.current && analysis.trebleEnergy > 15) {
-                    spawnNeonSnowflake('treble', Math.min(analysis.trebleEnergy / 255, 1));
-                    trebleThresholdRef.current = BEAT_THRESHOLD_INIT * 1.4;
-                    spawned = true;
-                } else {
-                    trebleThresholdRef.current = Math.max(BEAT_THRESHOLD_INIT, trebleThresholdRef.current * BEAT_DECAY_RATE);
-                }
-
-                if (!spawned && timeSinceLast > 600 && energy > 10) {
-                     if (analysis.bassEnergy > analysis.midEnergy && analysis.bassEnergy > analysis.trebleEnergy) {
-                        spawnNeonSnowflake('bass', 0.4); 
-                     } else if (analysis.midEnergy > analysis.trebleEnergy) {
-                        spawnNeonSnowflake('mid', 0.4);
-                     } else {
-                        spawnNeonSnowflake('treble', 0.4);
-                     }
-                }
-
-                avgBassRef.current = avgBassRef.current * 0.92 + analysis.bassEnergy * 0.08;
-                avgMidRef.current = avgMidRef.current * 0.92 + analysis.midEnergy * 0.08;
-                avgTrebleRef.current = avgTrebleRef.current * 0.92 + analysis.trebleEnergy * 0.08;
-            }
+            // Keep tracking tempo while frozen so the grid is still in phase on release
+            beat = getBeat(analysis.frequencyData, audioContextRef.current);
+
+            if (bpmTextRef?.current) bpmTextRef.current.innerText = beat.bpm > 0 ? Math.round(beat.bpm).toString() : '--';
+            if (beatDotRef?.current) beatDotRef.current.style.opacity = (1 - beat.beatPhase).toFixed(2);
+            emitAnalysisFrame(analysis, beat);
+        } else {
+            if (bassBarRef?.current) bassBarRef.current.style.width = '0%';
+            if (midBarRef?.current) midBarRef.current.style.width = '0%';
+            if (trebleBarRef?.current) trebleBarRef.current.style.width = '0%';
+            if (bassTextRef?.current) bassTextRef.current.innerText = '0';
+            if (midTextRef?.current) midTextRef.current.innerText = '0';
+            if (trebleTextRef?.current) trebleTextRef.current.innerText = '0';
+            if (leftBarRef?.current) leftBarRef.current.style.width = '0%';
+            if (rightBarRef?.current) rightBarRef.current.style.width = '0%';
+            if (bpmTextRef?.current) bpmTextRef.current.innerText = '--';
+            if (beatDotRef?.current) beatDotRef.current.style.opacity = '0';
         }
+        lastAnalysis = analysis;
+
+        engine.frame({
+            time: performance.now(),
+            analysis,
+            beat,
+            gesture: { frozen: isFrozenRef.current, target: targetOffsetRef.current, ...viewRef.current },
+            wind: brush.takeGusts(),
+            overlays: overlaysRef.current
+        });
 
-        ctx.save();
-        ctx.translate(window.innerWidth / 2 + cameraOffsetRef.current.x, window.innerHeight / 2 + cameraOffsetRef.current.y);
-        
-        ctx.globalCompositeOperation = 'screen';
-
-        for (let i = particlesRef.current.length - 1; i >= 0; i--) {
-            const p = particlesRef.current[i];
-
-            if (!isFrozenRef.current) {
-                p.x += p.vx;
-                p.y += p.vy;
-                p.z += p.vz;
-                p.vy += GRAVITY; 
-                p.vx *= FRICTION;
-                p.vy *= FRICTION;
-                p.vz *= FRICTION;
-                p.angle += p.spinSpeed;
-                
-                const dynamicDecay = energy > 0 
-                    ? p.decayRate + (energy / 255) * FADE_SPEED_VAR 
-                    : p.decayRate;
-                p.life -= dynamicDecay;
-            }
-
-            if (p.life > 0) {
-                const scale = 800 / (800 + p.z); 
-                const alpha = p.life * scale;
-                
-                if (scale > 0) {
-                    ctx.save();
-                    ctx.translate(p.x * scale, p.y * scale);
-                    ctx.scale(scale, scale);
-                    ctx.rotate(p.angle);
-                    
-                    const flicker = Math.random() > 0.9 ? 1.5 : 1;
-                    ctx.fillStyle = `hsla(${p.hue}, 100%, 60%, ${alpha})`;
-                    ctx.shadowBlur = 10 * scale * flicker;
-                    ctx.shadowColor = `hsla(${p.hue}, 100%, 50%, 1)`;
-
-                    ctx.beginPath();
-                    if (p.vertices.length > 0) {
-                        ctx.moveTo(p.vertices[0].x, p.vertices[0].y);
-                        for (let j = 1; j < p.vertices.length; j++) {
-                            ctx.lineTo(p.vertices[j].x, p.vertices[j].y);
-                        }
-                    }
-                    ctx.closePath();
-                    ctx.fill();
-                    ctx.restore();
-                }
-            } else {
-                particlesRef.current.splice(i, 1);
-            }
-        }
-        
-        ctx.restore();
         animationIdRef.current = requestAnimationFrame(render);
     };
 
@@ -463,14 +384,22 @@ const PsychedelicVisualizer: React.FC<VisualizerProps> = ({
 
     return () => {
         window.removeEventListener('resize', resizeCanvas);
+        container.removeEventListener('pointerdown', handlePointerDown);
+        container.removeEventListener('pointermove', handlePointerMove);
+        container.removeEventListener('pointerup', handlePointerUp);
+        container.removeEventListener('pointercancel', handlePointerCancel);
+        unsubscribeTriggers();
         cancelAnimationFrame(animationIdRef.current);
+        engine.dispose();
+        engineRef.current = null;
     };
   }, []);
 
   return (
     <>
-      <canvas ref={canvasRef} className="absolute top-0 left-0 w-full h-full pointer-events-none" />
+      <div ref={containerRef} className="absolute inset-0 touch-none" />
       <video ref={videoRef} className="hidden" autoPlay playsInline muted />
+      <canvas ref={previewRef} className="absolute bottom-4 left-4 z-30 rounded-md border border-white/10 bg-slate-900/40 pointer-events-none" style={{ display: 'none' }} />
       <div className="absolute inset-0 -z-10 bg-gradient-to-b from-slate-950 via-[#1a0b2e] to-[#0f0518]" />
     </>
   );
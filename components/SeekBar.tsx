@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { computeWaveformPeaks, formatTime } from '../utils/audioUtils';
+import { getVisualConfig, subscribeVisualConfig } from '../utils/visualConfig';
+import { SEEK_STEP_SECONDS, SEEK_STEP_LARGE_SECONDS } from '../constants';
+
+interface SeekBarProps {
+  duration: number; // 0 when nothing seekable is loaded
+  audioBuffer: AudioBuffer | null; // Waveform source, null for streamed tracks
+  getCurrentTime: () => number;
+  getBufferedEnd?: () => number; // Streamed tracks: how far ahead is downloaded
+  onSeek: (time: number) => void;
+}
+
+const WAVEFORM_BUCKETS = 240;
+const SCRUB_INTERVAL_MS = 80; // Throttle source re-creation while dragging
+
+const SeekBar: React.FC<SeekBarProps> = ({ duration, audioBuffer, getCurrentTime, getBufferedEnd, onSeek }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const progressRef = useRef<HTMLDivElement>(null);
+  const bufferedRef = useRef<HTMLDivElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const elapsedTextRef = useRef<HTMLSpanElement>(null);
+  const remainingTextRef = useRef<HTMLSpanElement>(null);
+
+  const [showRemaining, setShowRemaining] = useState(false);
+  const isDraggingRef = useRef(false);
+  const dragTimeRef = useRef(0);
+  const lastScrubRef = useRef(0);
+
+  // Always call the latest callbacks from the rAF loop / window listeners
+  const onSeekRef = useRef(onSeek);
+  const getCurrentTimeRef = useRef(getCurrentTime);
+  const getBufferedEndRef = useRef(getBufferedEnd);
+  const showRemainingRef = useRef(showRemaining);
+  useEffect(() => { onSeekRef.current = onSeek; }, [onSeek]);
+  useEffect(() => { getCurrentTimeRef.current = getCurrentTime; }, [getCurrentTime]);
+  useEffect(() => { getBufferedEndRef.current = getBufferedEnd; }, [getBufferedEnd]);
+  useEffect(() => { showRemainingRef.current = showRemaining; }, [showRemaining]);
+
+  const enabled = duration > 0;
+  const peaks = useMemo(() => audioBuffer ? computeWaveformPeaks(audioBuffer, WAVEFORM_BUCKETS) : null, [audioBuffer]);
+  const waveformColor = useSyncExternalStore(subscribeVisualConfig, () => getVisualConfig().colorHighFreq);
+
+  // --- Waveform Overview ---
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const draw = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      if (!peaks) return;
+
+      let max = 0;
+      for (let i = 0; i < peaks.length; i++) max = Math.max(max, peaks[i]);
+      const norm = max > 0 ? 1 / max : 0;
+
+      const barWidth = width / peaks.length;
+      ctx.fillStyle = `rgba(${waveformColor}, 0.35)`;
+      for (let i = 0; i < peaks.length; i++) {
+        const h = Math.max(1, peaks[i] * norm * height);
+        ctx.fillRect(i * barWidth, (height - h) / 2, Math.max(1, barWidth - 0.5), h);
+      }
+    };
+
+    draw();
+    window.addEventListener('resize', draw);
+    return () => window.removeEventListener('resize', draw);
+  }, [peaks, waveformColor]);
+
+  // --- Progress Loop (refs only, no re-renders) ---
+  useEffect(() => {
+    let frameId = 0;
+    const update = () => {
+      const time = isDraggingRef.current ? dragTimeRef.current : getCurrentTimeRef.current();
+      const ratio = duration > 0 ? Math.min(1, Math.max(0, time / duration)) : 0;
+
+      if (progressRef.current) progressRef.current.style.width = `${ratio * 100}%`;
+      if (playheadRef.current) playheadRef.current.style.left = `${ratio * 100}%`;
+      if (bufferedRef.current) {
+        const buffered = getBufferedEndRef.current && duration > 0 ? Math.min(1, getBufferedEndRef.current() / duration) : 0;
+        bufferedRef.current.style.width = `${buffered * 100}%`;
+      }
+      if (elapsedTextRef.current) elapsedTextRef.current.innerText = formatTime(time);
+      if (remainingTextRef.current) {
+        remainingTextRef.current.innerText = showRemainingRef.current ? `-${formatTime(duration - time)}` : formatTime(duration);
+      }
+
+      frameId = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frameId);
+  }, [duration]);
+
+  const timeFromPointer = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!enabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDraggingRef.current = true;
+    dragTimeRef.current = timeFromPointer(e.clientX);
+    lastScrubRef.current = 0;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDraggingRef.current) return;
+    dragTimeRef.current = timeFromPointer(e.clientX);
+
+    const now = performance.now();
+    if (now - lastScrubRef.current > SCRUB_INTERVAL_MS) {
+      lastScrubRef.current = now;
+      onSeekRef.current(dragTimeRef.current);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isDraggingRef.current) return;
+    isDraggingRef.current = false;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    onSeekRef.current(timeFromPointer(e.clientX));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!enabled) return;
+    const step = e.shiftKey ? SEEK_STEP_LARGE_SECONDS : SEEK_STEP_SECONDS;
+    const time = getCurrentTime();
+
+    switch (e.key) {
+      case 'ArrowLeft': onSeek(time - step); break;
+      case 'ArrowRight': onSeek(time + step); break;
+      case 'Home': onSeek(0); break;
+      case 'End': onSeek(duration); break;
+      default: return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div className={`flex items-center gap-1.5 w-64 bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-md px-2 py-1 shadow-xl ${!enabled ? 'opacity-40' : ''}`}>
+      <span ref={elapsedTextRef} className="w-8 text-[9px] font-mono text-cyan-200 tabular-nums">0:00</span>
+
+      <div
+        ref={trackRef}
+        role="slider"
+        tabIndex={enabled ? 0 : -1}
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={Math.floor(duration)}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        className={`relative flex-1 h-5 rounded-sm overflow-hidden touch-none outline-none focus-visible:ring-1 focus-visible:ring-cyan-300/60 ${enabled ? 'cursor-pointer' : 'cursor-not-allowed'}`}
+      >
+        <div ref={bufferedRef} className="absolute inset-y-0 left-0 bg-white/5 w-0" />
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+        <div ref={progressRef} className="absolute inset-y-0 left-0 bg-cyan-400/15 w-0" />
+        <div ref={playheadRef} className="absolute inset-y-0 w-px bg-cyan-200 shadow-[0_0_6px_rgba(165,243,252,0.9)]" />
+      </div>
+
+      <span
+        ref={remainingTextRef}
+        onClick={() => setShowRemaining(v => !v)}
+        className="w-9 text-right text-[9px] font-mono text-slate-400 tabular-nums cursor-pointer hover:text-white"
+        title="Toggle total / remaining"
+      >
+        0:00
+      </span>
+    </div>
+  );
+};
+
+export default SeekBar;
@@ -0,0 +1,257 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { ChevronRight, Download, RotateCcw, Save, Trash2, Upload } from 'lucide-react';
+import { VisualColorKey, VisualConfig, VisualNumberKey } from '../types';
+import { downloadBlob } from '../utils/download';
+import {
+  VISUAL_CONFIG_RANGES,
+  VisualPresets,
+  deleteVisualPreset,
+  getVisualConfig,
+  loadVisualPresets,
+  parseVisualConfig,
+  resetVisualConfig,
+  saveVisualPreset,
+  setVisualConfig,
+  subscribeVisualConfig
+} from '../utils/visualConfig';
+
+interface NumberField {
+  key: VisualNumberKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const COLOR_FIELDS: { key: VisualColorKey; label: string }[] = [
+  { key: 'colorBase', label: 'Bass' },
+  { key: 'colorMidFreq', label: 'Mid' },
+  { key: 'colorHighFreq', label: 'High' },
+  { key: 'colorBackground', label: 'Sky' }
+];
+
+const field = (key: VisualNumberKey, label: string): NumberField => ({ key, label, ...VISUAL_CONFIG_RANGES[key] });
+
+const SECTIONS: { title: string; fields: NumberField[] }[] = [
+  {
+    title: 'Physics',
+    fields: [
+      field('gravity', 'Gravity'),
+      field('friction', 'Friction'),
+      field('energyMultiplier', 'Burst')
+    ]
+  },
+  {
+    title: 'Particles',
+    fields: [
+      field('baseParticleSize', 'Size'),
+      field('sizeVariation', 'Size Var'),
+      field('minParticlesPerFirework', 'Min Count'),
+      field('maxParticlesPerFirework', 'Max Count'),
+      field('fadeSpeedBase', 'Fade'),
+      field('fadeSpeedVar', 'Fade Var')
+    ]
+  },
+  {
+    title: 'Beat',
+    fields: [
+      field('beatThreshold', 'Threshold'),
+      field('beatDecayRate', 'Decay')
+    ]
+  }
+];
+
+const rgbToHex = (rgb: string) =>
+  '#' + rgb.split(',').map(c => Number(c).toString(16).padStart(2, '0')).join('');
+
+const hexToRgb = (hex: string) =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)).join(', ');
+
+const decimalsOf = (step: number) => (step.toString().split('.')[1] ?? '').length;
+
+const SettingsPanel: React.FC = () => {
+  const config = useSyncExternalStore(subscribeVisualConfig, getVisualConfig);
+  const [presets, setPresets] = useState<VisualPresets>(loadVisualPresets);
+  const [selectedPreset, setSelectedPreset] = useState<string>("");
+  const [presetName, setPresetName] = useState<string>("");
+  const [openSections, setOpenSections] = useState<Record<string, boolean>>({ Colors: true });
+  const [error, setError] = useState<string>("");
+
+  const toggleSection = (title: string) => setOpenSections(prev => ({ ...prev, [title]: !prev[title] }));
+
+  // Any edit makes the look unsaved again
+  const editLook = (patch: Partial<VisualConfig>) => {
+    setVisualConfig(patch);
+    setSelectedPreset("");
+  };
+
+  const resetLook = () => {
+    resetVisualConfig();
+    setSelectedPreset("");
+  };
+
+  const selectPreset = (name: string) => {
+    if (!presets[name]) return;
+    setVisualConfig(presets[name]);
+    setSelectedPreset(name);
+    setPresetName(name);
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setPresets(saveVisualPreset(name, config));
+    setSelectedPreset(name);
+  };
+
+  const deletePreset = () => {
+    setPresets(deleteVisualPreset(selectedPreset));
+    setSelectedPreset("");
+  };
+
+  const importPreset = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseVisualConfig(JSON.parse(await file.text()));
+      const name = file.name.replace(/\.[^.]+$/, '') || 'Imported';
+      setVisualConfig(imported);
+      setPresets(saveVisualPreset(name, imported));
+      setSelectedPreset(name);
+      setPresetName(name);
+      setError("");
+    } catch (err) {
+      setError(`Couldn't import ${file.name}: ${err instanceof Error ? err.message : 'invalid file'}`);
+    }
+  };
+
+  const exportPreset = () => {
+    const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `${selectedPreset || presetName.trim() || 'winter-look'}.json`);
+  };
+
+  const sectionHeader = (title: string) => (
+    <button
+      onClick={() => toggleSection(title)}
+      className="w-full flex items-center gap-1 px-2 py-1 text-[8px] uppercase tracking-wider text-slate-400 font-medium hover:text-white"
+    >
+      <ChevronRight className={`w-2.5 h-2.5 transition-transform ${openSections[title] ? 'rotate-90' : ''}`} />
+      {title}
+    </button>
+  );
+
+  const iconButton = "w-4 h-4 flex items-center justify-center rounded-full text-slate-500 hover:text-white disabled:opacity-30";
+
+  return (
+    <div className="w-64 bg-slate-900/40 backdrop-blur-md border border-white/10 rounded-md shadow-xl overflow-hidden">
+      {/* Presets */}
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-white/5">
+        <span className="text-[8px] uppercase tracking-wider text-slate-400 font-medium">Look</span>
+        <select
+          value={presets[selectedPreset] ? selectedPreset : ''}
+          onChange={(e) => selectPreset(e.target.value)}
+          className="flex-1 min-w-0 bg-transparent text-[9px] text-slate-300 focus:outline-none cursor-pointer"
+        >
+          <option value="" className="bg-slate-900" disabled>Unsaved</option>
+          {Object.keys(presets).map(name => (
+            <option key={name} value={name} className="bg-slate-900">{name}</option>
+          ))}
+        </select>
+        <button
+          onClick={deletePreset}
+          disabled={!presets[selectedPreset]}
+          className="w-4 h-4 flex items-center justify-center rounded-full text-slate-500 hover:text-red-300 disabled:opacity-30"
+          title="Delete Preset"
+        >
+          <Trash2 className="w-2.5 h-2.5" />
+        </button>
+
+        <div className="h-3 w-px bg-white/10 mx-0.5"></div>
+
+        <label className={`relative cursor-pointer ${iconButton}`} title="Import JSON">
+          <input type="file" accept="application/json,.json" onChange={importPreset} className="absolute inset-0 opacity-0 w-full h-full cursor-pointer" />
+          <Upload className="w-2.5 h-2.5" />
+        </label>
+        <button onClick={exportPreset} className={iconButton} title="Export JSON">
+          <Download className="w-2.5 h-2.5" />
+        </button>
+        <button onClick={resetLook} className={iconButton} title="Reset to Defaults">
+          <RotateCcw className="w-2.5 h-2.5" />
+        </button>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto py-0.5">
+        {/* Colors */}
+        {sectionHeader('Colors')}
+        {openSections.Colors && (
+          <div className="grid grid-cols-4 gap-1 px-2 pb-1.5">
+            {COLOR_FIELDS.map(({ key, label }) => (
+              <label key={key} className="flex flex-col items-center gap-0.5 text-[8px] uppercase tracking-wider text-slate-500 font-medium">
+                <input
+                  type="color"
+                  value={rgbToHex(config[key])}
+                  onChange={(e) => editLook({ [key]: hexToRgb(e.target.value) })}
+                  className="w-6 h-4 bg-transparent border border-white/10 rounded cursor-pointer"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        )}
+
+        {/* Numeric tunables */}
+        {SECTIONS.map(({ title, fields }) => (
+          <div key={title}>
+            {sectionHeader(title)}
+            {openSections[title] && (
+              <div className="flex flex-col gap-1 px-2 pb-1.5">
+                {fields.map(({ key, label, min, max, step }) => (
+                  <label key={key} className="flex items-center gap-1.5 text-[8px] uppercase tracking-wider text-slate-400 font-medium">
+                    <span className="w-14">{label}</span>
+                    <input
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={config[key]}
+                      onChange={(e) => editLook({ [key]: parseFloat(e.target.value) })}
+                      className="flex-1 h-1 accent-cyan-300"
+                    />
+                    <span className="w-10 text-right font-mono text-cyan-200">{config[key].toFixed(decimalsOf(step))}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Save As */}
+      <div className="flex items-center gap-1 px-2 py-1 border-t border-white/5">
+        <input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') savePreset(); }}
+          placeholder="Preset name"
+          spellCheck={false}
+          className="flex-1 min-w-0 bg-transparent text-[9px] text-slate-300 placeholder:text-slate-600 focus:outline-none"
+        />
+        <button
+          onClick={savePreset}
+          disabled={!presetName.trim()}
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-white/10 text-[9px] text-white hover:bg-white/20 disabled:opacity-30"
+        >
+          <Save className="w-2.5 h-2.5" />
+          Save
+        </button>
+      </div>
+
+      {error && (
+        <div className="px-2 pb-1.5 text-[9px] text-red-200">{error}</div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
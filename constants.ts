@@ -1,33 +1,156 @@
 /**
  * VISUALIZATION CONFIGURATION
  * Tweak these values to customize the look and feel.
+ * Colors, physics, particle counts, fades and beat sensitivity are only the defaults: they can be
+ * edited live in the settings panel (see utils/visualConfig.ts).
  */
 
 // --- Colors ---
 export const COLOR_BASE = '255, 255, 255'; // Pure White (RGB) - Bass
 export const COLOR_MID_FREQ = '215, 245, 255'; // Very light cool white - Mids
 export const COLOR_HIGH_FREQ = '165, 243, 252'; // Tailwind Cyan-200 - Treble
+export const COLOR_BACKGROUND = '2, 6, 23'; // Tailwind Slate-950 - Winter sky
 
 // --- Particle Physics ---
 export const GRAVITY = 0.03; // Standard gravity for fireworks
 export const FRICTION = 0.95; // Air resistance
 export const BASE_PARTICLE_SIZE = 0.4; 
 export const SIZE_VARIATION = 2.4; 
+export const SIMULATION_FRAME_RATE = 60; // Fixed physics steps per second, whatever the display refresh rate
+export const SIMULATION_MAX_CATCH_UP_MS = 250; // Longer frame gaps are skipped instead of simulated
 
 // --- Snowflake Shape Logic ---
 export const SYMMETRY_ARMS = 6; 
 export const BRANCH_ANGLE = Math.PI / 3; 
 
+// --- Frequency Bands ---
+export const BASS_MAX_HZ = 250; // Bands centered below this feed bassEnergy
+export const MID_MAX_HZ = 4000; // ...below this midEnergy, everything above trebleEnergy
+export const DEFAULT_BAND_LAYOUT = {
+  count: 8,
+  minHz: 30,
+  maxHz: 16000,
+  spacing: 'log' as const
+};
+
 // --- Interaction / Audio Sensitivity ---
-export const BEAT_THRESHOLD_INIT = 1.35; 
-export const BEAT_DECAY_RATE = 0.98;
+export const BEAT_THRESHOLD_INIT = 1.35; // Spectral flux must exceed the local median by this factor
+export const BEAT_DECAY_RATE = 0.98; // Per-frame decay of the threshold boost applied after an onset
+
+// --- Onset Detection / Tempo Tracking ---
+export const ONSET_WINDOW_SECONDS = 0.75; // History used for the adaptive threshold
+export const ONSET_MIN_FLUX = [4, 3, 2]; // Absolute flux floor per band (bass, mid, treble)
+export const ONSET_MIN_INTERVAL = [0.12, 0.1, 0.08]; // Refractory period per band (seconds)
+export const TEMPO_MIN_BPM = 70;
+export const TEMPO_MAX_BPM = 180;
+export const TEMPO_HISTORY_SECONDS = 2.5; // Max inter-onset interval considered
+export const TEMPO_HALF_LIFE_SECONDS = 4; // How quickly the tempo histogram forgets
+export const TEMPO_MIN_CONFIDENCE = 0.12;
+export const BEAT_PHASE_CORRECTION = 0.2; // How strongly onsets pull the beat grid into phase
 
 // Particle Counts
 export const MAX_PARTICLES_PER_FIREWORK = 1200; 
 export const MIN_PARTICLES_PER_FIREWORK = 300; 
 
+// --- Rendering Backends ---
+export const CANVAS_MAX_PARTICLES = 4000; // Canvas2D fallback (Neon shards get half)
+export const WEBGL_MAX_PARTICLES = 80000; // WebGL2 instanced renderer
+export const WEBGL_PARTICLE_DENSITY = 8; // Particles per snowflake multiplier with WebGL (sizes shrink to keep the look)
+
 export const ENERGY_MULTIPLIER = 4.5; 
 
 // Fade settings - Faster fade so they disappear in the air
 export const FADE_SPEED_BASE = 0.008; 
-export const FADE_SPEED_VAR = 0.005;
\ No newline at end of file
+export const FADE_SPEED_VAR = 0.005;
+
+// --- Live Input (Mic / Line-In) ---
+export const LIVE_INPUT_GAIN_DEFAULT = 1.0;
+export const LIVE_INPUT_GAIN_MAX = 4.0;
+export const NOISE_GATE_THRESHOLD_DB = -50; // Below this level room hiss is muted
+export const NOISE_GATE_HYSTERESIS_DB = 6; // Gate closes this far below the threshold
+export const NOISE_GATE_HOLD_MS = 150; // Keep the gate open briefly after the signal drops
+export const NOISE_GATE_ATTACK = 0.005; // Seconds (time constant)
+export const NOISE_GATE_RELEASE = 0.08; // Seconds (time constant)
+
+// --- Playback ---
+export const SEEK_STEP_SECONDS = 5; // Arrow keys
+export const SEEK_STEP_LARGE_SECONDS = 15; // Shift + Arrow keys
+export const PREVIOUS_TRACK_RESTART_SECONDS = 3; // "Previous" rewinds instead when further in than this
+export const STREAMING_MIN_BYTES = 48 * 1024 * 1024; // Larger files stream from a media element instead of being decoded up front
+
+// --- Offline Track Analysis ---
+export const ANALYSIS_FRAME_RATE = 60; // Analysis hops per second (matches live tuning)
+export const ANALYSIS_ENVELOPE_INTERVAL = 0.1; // Seconds per band-envelope sample
+export const SECTION_BLOCK_SECONDS = 1; // Resolution of section detection
+export const SECTION_MIN_SECONDS = 8; // Shortest section worth reporting
+export const SECTION_INTENSITY: Record<string, number> = { // Spawn intensity multiplier per section
+  intro: 0.8,
+  build: 1.0,
+  drop: 1.25,
+  breakdown: 0.75,
+  outro: 0.8
+};
+export const SPAWN_ENERGY_FLOOR = 20; // Band energy (0-255) a beat needs to spawn, so a band filtered out before post analysis stops spawning
+
+// --- Audio Chain ---
+export const AUDIO_GAIN_RANGE_DB = [-24, 12]; // Trim before the EQ
+export const AUDIO_EQ_RANGE_DB = 15; // +/- per EQ band
+export const AUDIO_FILTER_MIN_HZ = 20; // Filter sweep range, the high-pass is open at the bottom...
+export const AUDIO_FILTER_MAX_HZ = 20000; // ...and the low-pass at the top
+export const AUDIO_PLAYBACK_RATE_RANGE = [0.5, 2];
+export const AUDIO_PARAM_SMOOTHING = 0.02; // Seconds, time constant for gain/filter changes (no zipper noise)
+
+// --- Gestures ---
+export const GESTURE_RELEASE_GRACE_MS = 200; // Recognizer dropouts shorter than this don't restart a hold
+export const GESTURE_HINT_MS = 1500; // How long a fired action stays in the on-screen hint
+export const GESTURE_PAN_MAX_OFFSET = 300; // Px the Neon camera pans at the edge of the frame
+export const VOLUME_STEP = 0.1; // Per volume up/down action
+export const HAND_PINCH_CLOSE = 0.25; // Thumb-index distance, relative to palm size, that starts a pinch
+export const HAND_PINCH_OPEN = 0.4; // ...and that releases it (hysteresis against jitter)
+export const HAND_ZOOM_MIN = 0.5; // Two-hand spread zoom range
+export const HAND_ZOOM_MAX = 3;
+export const HAND_PREVIEW_WIDTH = 160; // Px of the camera + skeleton preview
+
+// --- Winter Orbit ---
+export const ORBIT_DRAG_SPEED = 0.005; // Radians per px dragged
+export const ORBIT_PITCH_LIMIT = 1.3; // Radians up or down, short of flipping over the top
+export const ORBIT_INERTIA_HALF_LIFE = 150; // Ms for a flicked view to lose half its speed
+export const ORBIT_MAX_SPIN = 0.01; // Radians per ms a flick can coast at
+export const ORBIT_WHEEL_ZOOM = 0.001; // Perspective distance change per wheel delta (exponential)
+export const ORBIT_FOV_MIN = 300; // Perspective distance range in px (dolly in/out)
+export const ORBIT_FOV_MAX = 2000;
+export const ORBIT_AUTO_SPEED = 0.05; // Radians per second of auto-orbit in silence...
+export const ORBIT_AUTO_ENERGY_SPEED = 0.4; // ...plus this much at full energy
+
+// --- Pointer ---
+export const POINTER_TAP_MAX_MOVE = 10; // Px a press can wander and still count as a tap (spawn)...
+export const POINTER_TAP_MAX_MS = 350; // ...within this many ms; anything else is a stroke
+export const POINTER_MIN_TAP_INTENSITY = 0.3; // Taps in silence still spawn a visible snowflake
+export const WIND_RADIUS = 140; // Px around a stroke that particles feel its wind
+export const WIND_STRENGTH = 0.12; // Velocity (px per step) added per px of stroke at the center
+
+// --- Overlays ---
+export const OVERLAY_RING_RADIUS = 0.18; // Fraction of the shorter screen side
+export const OVERLAY_RING_AMPLITUDE = 0.35; // Oscilloscope swing relative to the ring radius
+export const OVERLAY_HALO_BARS = 96; // Spectrum bars around the halo (mirrored left/right)
+export const OVERLAY_HALO_LENGTH = 0.6; // Max bar length relative to the ring radius
+export const OVERLAY_WAVEFORM_HEIGHT = 36; // Px swing of the bottom waveform
+
+// --- Video Export ---
+export const EXPORT_LOGICAL_HEIGHT = 1080; // Scene is laid out at this height and scaled up for larger exports
+export const EXPORT_RESOLUTIONS = {
+  '1080p': { width: 1920, height: 1080 },
+  '4k': { width: 3840, height: 2160 }
+};
+export const EXPORT_FRAME_RATES = [30, 60]; // Must divide SIMULATION_FRAME_RATE
+export const EXPORT_VIDEO_BITRATE = { '1080p': 12_000_000, '4k': 40_000_000 };
+export const EXPORT_AUDIO_BITRATE = 192_000;
+export const EXPORT_AUDIO_SAMPLE_RATE = 48000; // Opus only encodes at 48 kHz
+export const EXPORT_KEYFRAME_SECONDS = 2;
+// Largest export built in memory when the browser can't write to disk as it goes. The muxer's buffer
+// grows by doubling and is then copied into the download, so the peak is a few times this.
+export const EXPORT_MAX_IN_MEMORY_BYTES = 1024 * 1024 * 1024;
+
+// --- Remote Control ---
+export const REMOTE_RECONNECT_MS = 2000; // Wait before retrying a lost or refused bridge connection
+export const REMOTE_PUBLISH_INTERVAL_MS = 33; // Band energies go out at most this often (~30/s); beats and onsets always
@@ -1,23 +1,201 @@
-export interface Particle {
-  x: number;
-  y: number;
-  z: number; // 3D depth
-  vx: number;
-  vy: number;
-  vz: number; // 3D velocity
-  alpha: number; // Transparency (0-1)
-  size: number;
-  color: string; // "r, g, b"
-  life: number; // 0-1, used for fading logic
-  decayRate: number; // How fast this specific particle dies
-  shimmerOffset: number; // For twinkling effect
-}
-
 export interface AudioData {
   frequencyData: Uint8Array;
   timeDomainData: Uint8Array;
   energy: number; // 0-255 average volume
+  bands: BandEnergy[]; // One entry per configured band (reused between frames, don't hold on to it)
+  // Derived from `bands` by group, kept for the dashboard bars and spawn logic
   bassEnergy: number; // Energy in lower frequencies
   midEnergy: number; // Energy in mid frequencies
   trebleEnergy: number; // Energy in higher frequencies
-}
\ No newline at end of file
+  stereo?: StereoData; // Only with a stereo tap on the analyser (see utils/stereoAnalysis.ts)
+}
+
+// Where the sound sits between the speakers
+export interface StereoData {
+  left: number; // 0-255 channel level, on the same scale as `energy`
+  right: number;
+  mid: number; // 0-1 RMS of (L + R) / 2
+  side: number; // 0-1 RMS of (L - R) / 2, 0 for mono
+  balance: Record<FrequencyBand, number>; // Per band group, -1 (hard left) to 1 (hard right)
+}
+
+export type BandSpacing = 'linear' | 'log' | 'mel' | 'bark';
+
+export interface BandDefinition {
+  name: string;
+  minHz: number;
+  maxHz: number;
+  weight?: number; // Multiplier applied to the band energy (default 1)
+  smoothing?: number; // 0-1 extra exponential smoothing on top of the analyser's (default 0)
+  group?: FrequencyBand; // Which compatibility field it feeds (default: by center frequency)
+}
+
+export interface BandEnergy {
+  name: string;
+  group: FrequencyBand;
+  centerHz: number;
+  energy: number; // 0-255 after weighting and smoothing
+}
+
+export type FrequencyBand = 'bass' | 'mid' | 'treble';
+
+export interface OnsetEvent {
+  band: FrequencyBand;
+  strength: number; // 0-1, how far the spectral flux peak cleared the adaptive threshold
+  time: number; // Seconds (same clock that was passed to the tracker)
+}
+
+export interface BeatInfo {
+  onsets: OnsetEvent[]; // Onsets picked this frame, in band priority order (bass, mid, treble)
+  isBeat: boolean; // A beat on the tracked tempo grid fell within this frame
+  bpm: number; // 0 until a tempo has been locked
+  beatPhase: number; // 0-1 position within the current beat
+  confidence: number; // 0-1 confidence of the tempo estimate
+  section?: SectionKind; // Only known when playing from a pre-analyzed beat map
+}
+
+export type SectionKind = 'intro' | 'build' | 'drop' | 'breakdown' | 'outro';
+
+export interface TrackSection {
+  kind: SectionKind;
+  start: number; // Seconds
+  end: number; // Seconds
+}
+
+export interface BeatMap {
+  duration: number;
+  bpm: number;
+  beats: number[]; // Beat grid times (seconds)
+  onsets: OnsetEvent[]; // Sorted by time
+  sections: TrackSection[];
+  // Per-band intensities (0-1) sampled every `envelopeInterval` seconds
+  envelopeInterval: number;
+  bassEnvelope: Float32Array;
+  midEnvelope: Float32Array;
+  trebleEnvelope: Float32Array;
+}
+
+// Scenes draw the same on the page and in a worker (OffscreenCanvas)
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// A snowflake spawned by hand (gesture, tap) instead of by the music
+export interface BurstOptions {
+  at?: { x: number; y: number }; // CSS px on screen, somewhere random when not set
+  band?: FrequencyBand; // Color band, random when not set
+  intensity?: number; // 0-1, full when not set
+}
+
+// One segment of a pointer stroke, pushing particles along it (CSS px on screen)
+export interface WindGust {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+}
+
+export interface OverlaySettings {
+  oscilloscope: boolean; // Radial oscilloscope ring around screen center
+  spectrumHalo: boolean; // Circular spectrum bars around the ring
+  waveform: boolean; // Frosted waveform along the bottom edge
+}
+
+export type ExportResolution = '1080p' | '4k';
+export type ExportFormat = 'webm' | 'mp4';
+
+export interface ExportOptions {
+  resolution: ExportResolution;
+  frameRate: number;
+  format: ExportFormat;
+  seed: number;
+  overlays?: OverlaySettings;
+}
+
+// One band of the playback EQ (see utils/audioChain.ts)
+export interface EqBand {
+  type: 'lowshelf' | 'peaking' | 'highshelf';
+  frequency: number; // Hz
+  gain: number; // dB
+  q: number; // Peaking bands only
+}
+
+// File playback processing between the source and the speakers
+export interface AudioChainSettings {
+  gain: number; // dB trim before the EQ
+  eq: EqBand[];
+  highpassHz: number; // AUDIO_FILTER_MIN_HZ = open
+  lowpassHz: number; // AUDIO_FILTER_MAX_HZ = open
+  playbackRate: number; // Speed, and pitch with it (like a turntable)
+  analyse: 'pre' | 'post'; // Whether the visuals follow the source or the processed sound
+}
+
+// Live-tunable look, defaults in constants.ts (see utils/visualConfig.ts)
+export interface VisualConfig {
+  colorBase: string; // "r, g, b" - Bass
+  colorMidFreq: string; // Mids
+  colorHighFreq: string; // Treble
+  colorBackground: string; // Winter sky
+  gravity: number;
+  friction: number;
+  baseParticleSize: number;
+  sizeVariation: number;
+  beatThreshold: number;
+  beatDecayRate: number;
+  maxParticlesPerFirework: number;
+  minParticlesPerFirework: number;
+  energyMultiplier: number;
+  fadeSpeedBase: number;
+  fadeSpeedVar: number;
+}
+
+export type VisualColorKey = 'colorBase' | 'colorMidFreq' | 'colorHighFreq' | 'colorBackground';
+// The slider settings, ranges in VISUAL_CONFIG_RANGES
+export type VisualNumberKey = Exclude<keyof VisualConfig, VisualColorKey>;
+
+// Categories returned by the MediaPipe gesture recognizer ('None' aside)
+export type GestureName = 'Open_Palm' | 'Closed_Fist' | 'Pointing_Up' | 'Thumb_Up' | 'Thumb_Down' | 'Victory' | 'ILoveYou';
+
+export type GestureAction =
+  | 'none'
+  | 'freezePan' // Held: freezes the shards and pans with the hand
+  | 'playPause'
+  | 'nextTrack'
+  | 'previousTrack'
+  | 'switchPalette'
+  | 'burst' // Manual snowflake burst
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'resetView'; // Undoes two-hand zoom and rotation
+
+export interface GestureBinding {
+  action: GestureAction;
+  minScore: number; // 0-1 recognizer confidence below which the gesture is ignored
+  holdMs: number; // How long the gesture must be held before the action fires
+  repeatMs: number; // Fires again this often while still held, 0 = once per hold
+}
+
+// Look parameters a MIDI knob or fader can drive (see utils/midiInput.ts)
+export type MidiCcTarget = 'gravity' | 'friction' | 'energyMultiplier' | 'baseParticleSize' | 'beatThreshold';
+
+export interface MidiMappings {
+  noteRanges: Record<FrequencyBand, [number, number]>; // Inclusive note numbers firing each band
+  ccs: Record<number, MidiCcTarget>; // Controller number -> parameter it sets
+}
+
+// What the next MIDI input gets bound to while learning
+export type MidiLearnTarget =
+  | { type: 'band'; band: FrequencyBand } // Lowest then highest note of the range (same note twice for one pad)
+  | { type: 'cc'; target: MidiCcTarget }; // Any knob or fader
+
+// A control message from the OSC bridge, decoded (see utils/remoteControl.ts)
+export type RemoteCommand =
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'togglePlay' }
+  | { type: 'seek'; time: number } // Seconds
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'preset'; name: string } // A saved look preset
+  | { type: 'mode'; mode: 'winter' | 'neon' }
+  | { type: 'spawn'; band?: FrequencyBand; intensity?: number; position?: { x: number; y: number } } // Position 0-1 across the screen
+  | { type: 'param'; key: keyof VisualConfig; value: number | string };
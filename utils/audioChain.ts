@@ -0,0 +1,97 @@
+import { AudioChainSettings } from '../types';
+import { readStorage, writeStorage } from './storage';
+import { AUDIO_FILTER_MAX_HZ, AUDIO_FILTER_MIN_HZ, AUDIO_PARAM_SMOOTHING } from '../constants';
+
+export const DEFAULT_AUDIO_CHAIN: AudioChainSettings = {
+  gain: 0,
+  eq: [
+    { type: 'lowshelf', frequency: 100, gain: 0, q: 1 },
+    { type: 'peaking', frequency: 500, gain: 0, q: 1 },
+    { type: 'peaking', frequency: 2500, gain: 0, q: 1 },
+    { type: 'highshelf', frequency: 8000, gain: 0, q: 1 }
+  ],
+  highpassHz: AUDIO_FILTER_MIN_HZ,
+  lowpassHz: AUDIO_FILTER_MAX_HZ,
+  playbackRate: 1,
+  analyse: 'post'
+};
+
+const CHAIN_STORAGE_KEY = 'visualizer.audioChain';
+
+// Stored settings are merged over the defaults; the EQ layout (band count and types) is fixed
+export const loadAudioChainSettings = (): AudioChainSettings => {
+  const stored = readStorage(CHAIN_STORAGE_KEY) as Partial<AudioChainSettings> | null;
+  if (typeof stored !== 'object' || stored === null) return DEFAULT_AUDIO_CHAIN;
+  const eq = DEFAULT_AUDIO_CHAIN.eq.map((band, i) => ({ ...band, ...stored.eq?.[i], type: band.type }));
+  return { ...DEFAULT_AUDIO_CHAIN, ...stored, eq };
+};
+
+export const saveAudioChainSettings = (settings: AudioChainSettings) => writeStorage(CHAIN_STORAGE_KEY, settings);
+
+/**
+ * File playback processing: input -> gain -> EQ -> high-pass -> low-pass -> `destination`.
+ * The analyser taps either the input (pre) or the end of the chain (post), so a filter sweep
+ * can thin out the visuals or leave them alone. Playback rate lives on the source node,
+ * the caller applies `settings.playbackRate` there.
+ */
+export interface AudioChain {
+  /** Where sources connect. */
+  input: AudioNode;
+  apply: (settings: AudioChainSettings) => void;
+  dispose: () => void;
+}
+
+export const createAudioChain = (
+  ctx: BaseAudioContext,
+  analyser: AnalyserNode,
+  destination: AudioNode,
+  settings: AudioChainSettings
+): AudioChain => {
+  const input = ctx.createGain();
+  const gain = ctx.createGain();
+  const eq = settings.eq.map(band => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = band.type;
+    return filter;
+  });
+  const highpass = ctx.createBiquadFilter();
+  highpass.type = 'highpass';
+  const lowpass = ctx.createBiquadFilter();
+  lowpass.type = 'lowpass';
+
+  const nodes: AudioNode[] = [input, gain, ...eq, highpass, lowpass, destination];
+  for (let i = 0; i < nodes.length - 1; i++) nodes[i].connect(nodes[i + 1]);
+
+  let tap: AudioNode | null = null;
+
+  const setParam = (param: AudioParam, value: number) => param.setTargetAtTime(value, ctx.currentTime, AUDIO_PARAM_SMOOTHING);
+
+  const apply = (next: AudioChainSettings) => {
+    setParam(gain.gain, Math.pow(10, next.gain / 20));
+    next.eq.forEach((band, i) => {
+      if (!eq[i]) return;
+      setParam(eq[i].frequency, band.frequency);
+      setParam(eq[i].gain, band.gain);
+      setParam(eq[i].Q, band.q);
+    });
+    setParam(highpass.frequency, next.highpassHz);
+    setParam(lowpass.frequency, next.lowpassHz);
+
+    const nextTap = next.analyse === 'pre' ? input : lowpass;
+    if (nextTap !== tap) {
+      tap?.disconnect(analyser);
+      nextTap.connect(analyser);
+      tap = nextTap;
+    }
+  };
+
+  apply(settings);
+
+  return {
+    input,
+    apply,
+    dispose: () => {
+      for (const node of nodes.slice(0, -1)) node.disconnect();
+    }
+  };
+};
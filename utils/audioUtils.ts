@@ -1,47 +1,135 @@
-import { AudioData } from '../types';
+import { AudioData, FrequencyBand } from '../types';
+import { BandAnalyzer, getBinRange } from './frequencyBands';
+import type { StereoAnalysis } from './stereoAnalysis';
+import { BASS_MAX_HZ, MID_MAX_HZ } from '../constants';
 
-export const analyzeAudio = (analyser: AnalyserNode, dataArray: Uint8Array): AudioData => {
+/**
+ * Splits the spectrum into the 3 classic bands by frequency (see BASS_MAX_HZ / MID_MAX_HZ).
+ */
+export const getBandBins = (length: number, sampleRate: number) => {
+  return {
+    bassEnd: getBinRange(0, BASS_MAX_HZ, length, sampleRate)[1],
+    midEnd: getBinRange(BASS_MAX_HZ, MID_MAX_HZ, length, sampleRate)[1]
+    // Treble is everything above
+  };
+};
+
+export const analyzeAudio = (
+  analyser: AnalyserNode,
+  dataArray: Uint8Array,
+  timeDomainArray: Uint8Array, // analyser.fftSize long, allocated once by the caller
+  bandAnalyzer: BandAnalyzer,
+  stereo?: StereoAnalysis // Per-channel tap on the same analyser, adds `stereo` to the result
+): AudioData => {
   analyser.getByteFrequencyData(dataArray);
+  analyser.getByteTimeDomainData(timeDomainArray);
+  const analysis = summarizeAudio(dataArray, timeDomainArray, analyser.context.sampleRate, bandAnalyzer);
+  if (stereo) analysis.stereo = stereo.process();
+  return analysis;
+};
 
-  const length = dataArray.length;
+/**
+ * Builds the per-frame analysis from byte spectrum / waveform data, wherever it came from
+ * (the live AnalyserNode, or the offline spectrum analyser during export).
+ */
+export const summarizeAudio = (
+  frequencyData: Uint8Array,
+  timeDomainData: Uint8Array,
+  sampleRate: number,
+  bandAnalyzer: BandAnalyzer
+): AudioData => {
+  const length = frequencyData.length;
   let totalEnergy = 0;
-  let bassEnergy = 0;
-  let midEnergy = 0;
-  let trebleEnergy = 0;
-
-  // Split spectrum into 3 bands
-  // Adjusting bins to map better to musical perception (Logarithmic-ish)
-  const bassEnd = Math.floor(length * 0.06); // Bottom 6% (Deep Bass)
-  const midEnd = Math.floor(length * 0.40);  // 6% to 40% (Mids)
-  // Treble is 40% to 100%
-
-  for (let i = 0; i < length; i++) {
-    const val = dataArray[i];
-    totalEnergy += val;
-    
-    if (i < bassEnd) {
-      bassEnergy += val;
-    } else if (i < midEnd) {
-      midEnergy += val;
-    } else {
-      trebleEnergy += val;
-    }
+  for (let i = 0; i < length; i++) totalEnergy += frequencyData[i];
+
+  const bands = bandAnalyzer.process(frequencyData, sampleRate);
+
+  // Compatibility fields: mean energy of the bands in each group
+  const groupSums = { bass: 0, mid: 0, treble: 0 };
+  const groupCounts = { bass: 0, mid: 0, treble: 0 };
+  for (const band of bands) {
+    groupSums[band.group] += band.energy;
+    groupCounts[band.group]++;
   }
 
   return {
-    frequencyData: dataArray,
-    timeDomainData: new Uint8Array(analyser.fftSize), 
+    frequencyData,
+    timeDomainData,
     energy: totalEnergy / length,
-    bassEnergy: bassEnergy / (bassEnd || 1),
-    midEnergy: midEnergy / ((midEnd - bassEnd) || 1),
-    trebleEnergy: trebleEnergy / ((length - midEnd) || 1),
+    bands,
+    bassEnergy: groupSums.bass / (groupCounts.bass || 1),
+    midEnergy: groupSums.mid / (groupCounts.mid || 1),
+    trebleEnergy: groupSums.treble / (groupCounts.treble || 1),
   };
 };
 
 /**
- * Simple beat detection based on energy history.
- * Returns true if current energy > local average * threshold
+ * The band currently carrying the most energy.
  */
-export const detectBeat = (energy: number, averageEnergy: number, threshold: number) => {
-  return energy > averageEnergy * threshold;
-};
\ No newline at end of file
+export const getDominantBand = (analysis: AudioData): FrequencyBand => {
+  if (analysis.bassEnergy > analysis.midEnergy && analysis.bassEnergy > analysis.trebleEnergy) return 'bass';
+  if (analysis.midEnergy > analysis.trebleEnergy) return 'mid';
+  return 'treble';
+};
+
+/**
+ * Energy (0-255) of a single band.
+ */
+export const getBandEnergy = (analysis: AudioData, band: FrequencyBand) => {
+  switch (band) {
+    case 'bass': return analysis.bassEnergy;
+    case 'mid': return analysis.midEnergy;
+    case 'treble': return analysis.trebleEnergy;
+  }
+};
+
+/**
+ * Mixes all channels down to mono, the same way AnalyserNode does before analysing.
+ */
+export const mixdown = (buffer: AudioBuffer) => {
+  const mono = new Float32Array(buffer.length);
+  const gain = 1 / buffer.numberOfChannels;
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] * gain;
+  }
+  return mono;
+};
+
+/**
+ * Downsamples an AudioBuffer into `buckets` peak values (0-1) for waveform overviews.
+ * Channels are mixed by taking the loudest sample across channels.
+ */
+export const computeWaveformPeaks = (buffer: AudioBuffer, buckets: number): Float32Array => {
+  const peaks = new Float32Array(buckets);
+  const samplesPerBucket = Math.max(1, Math.floor(buffer.length / buckets));
+  // Sampling every Nth frame is plenty for a thumbnail and keeps hour-long files fast
+  const stride = Math.max(1, Math.floor(samplesPerBucket / 256));
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let b = 0; b < buckets; b++) {
+      const start = b * samplesPerBucket;
+      const end = Math.min(start + samplesPerBucket, data.length);
+      let peak = peaks[b];
+      for (let i = start; i < end; i += stride) {
+        const v = Math.abs(data[i]);
+        if (v > peak) peak = v;
+      }
+      peaks[b] = peak;
+    }
+  }
+
+  return peaks;
+};
+
+/**
+ * Formats seconds as m:ss (or h:mm:ss for long mixes).
+ */
+export const formatTime = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = (total % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
@@ -0,0 +1,297 @@
+import { BeatInfo, BeatMap, FrequencyBand, OnsetEvent, SectionKind, TrackSection } from '../types';
+import { getBandBins } from './audioUtils';
+import { createBeatTracker } from './beatTracker';
+import { createSpectrumAnalyser } from './fft';
+import {
+  ANALYSIS_FRAME_RATE,
+  ANALYSIS_ENVELOPE_INTERVAL,
+  SECTION_BLOCK_SECONDS,
+  SECTION_MIN_SECONDS
+} from '../constants';
+
+const FFT_SIZE = 2048; // Same as the live AnalyserNode in App.tsx
+const BAND_PRIORITY: Record<FrequencyBand, number> = { bass: 0, mid: 1, treble: 2 };
+
+const mean = (values: ArrayLike<number>, start: number, end: number) => {
+  const s = Math.max(0, start);
+  const e = Math.min(values.length, end);
+  if (e <= s) return 0;
+  let sum = 0;
+  for (let i = s; i < e; i++) sum += values[i];
+  return sum / (e - s);
+};
+
+/**
+ * Runs the live onset/tempo pipeline over a whole (mono) track at a fixed frame rate
+ * and collects the results into a beat map.
+ */
+export const buildBeatMap = (
+  samples: Float32Array,
+  sampleRate: number,
+  onProgress?: (progress: number) => void
+): BeatMap => {
+  const duration = samples.length / sampleRate;
+  const spectrum = createSpectrumAnalyser(FFT_SIZE);
+  const tracker = createBeatTracker();
+  const bytes = new Uint8Array(FFT_SIZE / 2);
+  const { bassEnd, midEnd } = getBandBins(bytes.length, sampleRate);
+
+  const hop = sampleRate / ANALYSIS_FRAME_RATE;
+  const frameCount = Math.floor(samples.length / hop);
+  const envelopeLength = Math.ceil(duration / ANALYSIS_ENVELOPE_INTERVAL);
+  const bassEnvelope = new Float32Array(envelopeLength);
+  const midEnvelope = new Float32Array(envelopeLength);
+  const trebleEnvelope = new Float32Array(envelopeLength);
+  const envelopeCounts = new Uint16Array(envelopeLength);
+
+  const onsets: OnsetEvent[] = [];
+  const beats: number[] = [];
+  const bpmReadings: number[] = [];
+
+  for (let f = 0; f < frameCount; f++) {
+    const time = (f * hop) / sampleRate;
+    // Like AnalyserNode, look at the most recent fftSize samples
+    spectrum.process(samples, Math.round(f * hop) - FFT_SIZE, bytes);
+
+    const info = tracker.process(bytes, time, sampleRate);
+    onsets.push(...info.onsets);
+    if (info.isBeat) {
+      beats.push(time);
+      bpmReadings.push(info.bpm);
+    }
+
+    let bass = 0, mid = 0, treble = 0;
+    for (let i = 0; i < bytes.length; i++) {
+      if (i < bassEnd) bass += bytes[i];
+      else if (i < midEnd) mid += bytes[i];
+      else treble += bytes[i];
+    }
+    const e = Math.min(envelopeLength - 1, Math.floor(time / ANALYSIS_ENVELOPE_INTERVAL));
+    bassEnvelope[e] += bass / ((bassEnd || 1) * 255);
+    midEnvelope[e] += mid / (((midEnd - bassEnd) || 1) * 255);
+    trebleEnvelope[e] += treble / (((bytes.length - midEnd) || 1) * 255);
+    envelopeCounts[e]++;
+
+    if (onProgress && f % 500 === 0) onProgress(f / frameCount);
+  }
+
+  for (let i = 0; i < envelopeLength; i++) {
+    const count = envelopeCounts[i] || 1;
+    bassEnvelope[i] /= count;
+    midEnvelope[i] /= count;
+    trebleEnvelope[i] /= count;
+  }
+
+  // The causal tracker needs a few seconds to lock, so the median is a more honest tempo
+  const sortedBpm = bpmReadings.slice().sort((a, b) => a - b);
+  const bpm = sortedBpm.length > 0 ? sortedBpm[sortedBpm.length >> 1] : 0;
+
+  // Extend the grid back to the start of the track, covering the lock-in period
+  if (bpm > 0 && beats.length > 0) {
+    const period = 60 / bpm;
+    const lead: number[] = [];
+    for (let t = beats[0] - period; t >= 0; t -= period) lead.unshift(t);
+    beats.unshift(...lead);
+  }
+
+  onsets.sort((a, b) => a.time - b.time || BAND_PRIORITY[a.band] - BAND_PRIORITY[b.band]);
+  if (onProgress) onProgress(1);
+
+  return {
+    duration,
+    bpm,
+    beats,
+    onsets,
+    sections: detectSections(bassEnvelope, midEnvelope, trebleEnvelope, ANALYSIS_ENVELOPE_INTERVAL, duration),
+    envelopeInterval: ANALYSIS_ENVELOPE_INTERVAL,
+    bassEnvelope,
+    midEnvelope,
+    trebleEnvelope
+  };
+};
+
+/**
+ * Heuristic song-structure detection on the band envelopes:
+ * - drop: sharp, sustained jump in bass at high overall level
+ * - build: steadily rising energy leading into a drop
+ * - intro / outro: low-energy head and tail of the track
+ * - breakdown: low-energy stretches in between
+ */
+export const detectSections = (
+  bassEnvelope: Float32Array,
+  midEnvelope: Float32Array,
+  trebleEnvelope: Float32Array,
+  interval: number,
+  duration: number
+): TrackSection[] => {
+  const perBlock = Math.max(1, Math.round(SECTION_BLOCK_SECONDS / interval));
+  const n = Math.ceil(bassEnvelope.length / perBlock);
+  if (n === 0) return [];
+
+  const rawLevel = new Float32Array(n);
+  const rawBass = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const start = i * perBlock;
+    const end = start + perBlock;
+    rawBass[i] = mean(bassEnvelope, start, end);
+    rawLevel[i] = rawBass[i] * 0.5 + mean(midEnvelope, start, end) * 0.3 + mean(trebleEnvelope, start, end) * 0.2;
+  }
+
+  // Smoothed and stretched to 0-1 (min-max, since byte spectra are already in dB and compress the range)
+  const normalize = (values: Float32Array) => {
+    const out = new Float32Array(values.length);
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < values.length; i++) {
+      out[i] = mean(values, i - 1, i + 2);
+      min = Math.min(min, out[i]);
+      max = Math.max(max, out[i]);
+    }
+    const range = max - min;
+    for (let i = 0; i < out.length; i++) out[i] = range > 0 ? (out[i] - min) / range : 0;
+    return out;
+  };
+  const level = normalize(rawLevel);
+  const bass = normalize(rawBass);
+
+  const W = 4;
+  const minBlocks = Math.max(1, Math.round(SECTION_MIN_SECONDS / SECTION_BLOCK_SECONDS));
+  const labels: (SectionKind | null)[] = new Array(n).fill(null);
+
+  // --- Drops (and the builds leading into them) ---
+  let lastDrop = -Infinity;
+  for (let i = W; i < n - W; i++) {
+    if (i - lastDrop < minBlocks) continue;
+    const jump = mean(bass, i, i + W) - mean(bass, i - W, i);
+    if (jump <= 0.25 || mean(level, i, i + W) <= 0.6) continue;
+
+    // Snap to the steepest point of the jump
+    let drop = i;
+    let best = jump;
+    for (let j = i + 1; j < Math.min(n - W, i + W); j++) {
+      const d = mean(bass, j, j + W) - mean(bass, j - W, j);
+      if (d > best) { best = d; drop = j; }
+    }
+
+    let end = drop + 1;
+    while (end < n && !(mean(level, end, end + 3) < 0.5)) end++;
+    for (let j = drop; j < end; j++) labels[j] = 'drop';
+
+    let buildStart = drop;
+    while (buildStart - 1 >= 0 && drop - (buildStart - 1) <= minBlocks * 2 && labels[buildStart - 1] === null
+      && level[buildStart - 1] <= level[buildStart] + 0.03) {
+      buildStart--;
+    }
+    if (drop - buildStart >= W) {
+      for (let j = buildStart; j < drop; j++) labels[j] = 'build';
+    }
+
+    lastDrop = drop;
+    i = end;
+  }
+
+  // --- Intro / Outro ---
+  let firstLoud = 0;
+  while (firstLoud < n && labels[firstLoud] === null && level[firstLoud] < 0.5) firstLoud++;
+  for (let j = 0; j < firstLoud; j++) labels[j] = 'intro';
+
+  let lastLoud = n - 1;
+  while (lastLoud >= 0 && labels[lastLoud] === null && level[lastLoud] < 0.5) lastLoud--;
+  if (n - 1 - lastLoud >= W) {
+    for (let j = lastLoud + 1; j < n; j++) labels[j] = 'outro';
+  }
+
+  // --- Everything else by level ---
+  for (let j = 0; j < n; j++) {
+    if (labels[j] === null) labels[j] = level[j] >= 0.6 ? 'drop' : 'breakdown';
+  }
+
+  // --- Merge into sections, folding short fragments into their predecessor ---
+  const sections: TrackSection[] = [];
+  for (let j = 0; j < n; j++) {
+    const start = j * SECTION_BLOCK_SECONDS;
+    const end = Math.min(duration, (j + 1) * SECTION_BLOCK_SECONDS);
+    const last = sections[sections.length - 1];
+    if (last && last.kind === labels[j]) {
+      last.end = end;
+    } else {
+      sections.push({ kind: labels[j] as SectionKind, start, end });
+    }
+  }
+
+  const merged: TrackSection[] = [];
+  for (const section of sections) {
+    const last = merged[merged.length - 1];
+    if (last && (section.end - section.start < SECTION_MIN_SECONDS || last.kind === section.kind)) {
+      last.end = section.end;
+    } else {
+      merged.push({ ...section });
+    }
+  }
+  return merged;
+};
+
+export interface BeatMapCursor {
+  /**
+   * Returns the events due at `trackTime`. Events are taken up to half a frame early so a
+   * spawn lands on the frame closest to the actual onset instead of the one after it.
+   */
+  advance: (trackTime: number, frameDuration: number) => BeatInfo;
+}
+
+const lowerBound = (times: number[], time: number) => {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < time) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+};
+
+export const createBeatMapCursor = (map: BeatMap): BeatMapCursor => {
+  const onsetTimes = map.onsets.map(o => o.time);
+  let onsetIndex = 0;
+  let beatIndex = 0;
+  let sectionIndex = 0;
+  let lastTime = -Infinity;
+
+  return {
+    advance: (trackTime, frameDuration) => {
+      const horizon = trackTime + frameDuration / 2;
+
+      // Seeks (or a paused gap) jump the cursor instead of replaying everything in between
+      if (trackTime < lastTime - 0.05 || trackTime > lastTime + 1) {
+        onsetIndex = lowerBound(onsetTimes, trackTime);
+        beatIndex = lowerBound(map.beats, trackTime);
+        sectionIndex = 0;
+      }
+      lastTime = trackTime;
+
+      const onsets: OnsetEvent[] = [];
+      while (onsetIndex < map.onsets.length && map.onsets[onsetIndex].time <= horizon) {
+        onsets.push(map.onsets[onsetIndex]);
+        onsetIndex++;
+      }
+      onsets.sort((a, b) => BAND_PRIORITY[a.band] - BAND_PRIORITY[b.band]);
+
+      let isBeat = false;
+      while (beatIndex < map.beats.length && map.beats[beatIndex] <= horizon) {
+        isBeat = true;
+        beatIndex++;
+      }
+
+      let beatPhase = 0;
+      const prev = map.beats[beatIndex - 1];
+      const next = map.beats[beatIndex];
+      if (prev !== undefined && next !== undefined && next > prev) {
+        beatPhase = Math.min(1, Math.max(0, (trackTime - prev) / (next - prev)));
+      }
+
+      while (sectionIndex < map.sections.length - 1 && map.sections[sectionIndex].end <= trackTime) sectionIndex++;
+      const section = map.sections[sectionIndex]?.kind;
+
+      return { onsets, isBeat, bpm: map.bpm, beatPhase, confidence: map.bpm > 0 ? 1 : 0, section };
+    }
+  };
+};
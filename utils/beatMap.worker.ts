@@ -0,0 +1,18 @@
+import { buildBeatMap } from './beatMap';
+
+export interface BeatMapRequest {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export type BeatMapResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; beatMap: ReturnType<typeof buildBeatMap> };
+
+self.onmessage = (e: MessageEvent<BeatMapRequest>) => {
+  const { samples, sampleRate } = e.data;
+  const post = (message: BeatMapResponse) => self.postMessage(message);
+
+  const beatMap = buildBeatMap(samples, sampleRate, progress => post({ type: 'progress', progress }));
+  post({ type: 'done', beatMap });
+};
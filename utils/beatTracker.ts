@@ -0,0 +1,244 @@
+import { BeatInfo, FrequencyBand, OnsetEvent } from '../types';
+import { getBandBins } from './audioUtils';
+import { getVisualConfig } from './visualConfig';
+import {
+  ONSET_WINDOW_SECONDS,
+  ONSET_MIN_FLUX,
+  ONSET_MIN_INTERVAL,
+  TEMPO_MIN_BPM,
+  TEMPO_MAX_BPM,
+  TEMPO_HISTORY_SECONDS,
+  TEMPO_HALF_LIFE_SECONDS,
+  TEMPO_MIN_CONFIDENCE,
+  BEAT_PHASE_CORRECTION
+} from '../constants';
+
+export interface BeatTracker {
+  /** Feed one frame of byte frequency data. `time` is in seconds on a monotonic clock. */
+  process: (frequencyData: Uint8Array, time: number, sampleRate: number) => BeatInfo;
+  reset: () => void;
+}
+
+const BANDS: FrequencyBand[] = ['bass', 'mid', 'treble'];
+// Bass and mid onsets carry the pulse, hats mostly add off-beat noise to the tempo estimate
+const TEMPO_BAND_WEIGHT = [1.0, 0.6, 0.25];
+
+interface FluxSample {
+  time: number;
+  flux: number;
+}
+
+interface BandState {
+  history: FluxSample[];
+  prevFlux: number;
+  prevPrevFlux: number;
+  prevTime: number;
+  prevThreshold: number;
+  thresholdBoost: number;
+  lastOnsetTime: number;
+}
+
+const createBandState = (): BandState => ({
+  history: [],
+  prevFlux: 0,
+  prevPrevFlux: 0,
+  prevTime: 0,
+  prevThreshold: Infinity,
+  thresholdBoost: 1,
+  lastOnsetTime: -Infinity
+});
+
+const median = (samples: FluxSample[]) => {
+  if (samples.length === 0) return 0;
+  const values = samples.map(s => s.flux).sort((a, b) => a - b);
+  const mid = values.length >> 1;
+  return values.length % 2 ? values[mid] : (values[mid - 1] + values[mid]) / 2;
+};
+
+/**
+ * Per-band spectral flux onset detector with an inter-onset-interval tempo tracker.
+ *
+ * Onsets: half-wave rectified flux per band, thresholded against the local median
+ * (scaled by the configured beat threshold and a post-onset boost), then peak-picked one frame late.
+ * Tempo: intervals between recent onsets are folded into [TEMPO_MIN_BPM, TEMPO_MAX_BPM]
+ * and voted into a decaying histogram. A beat grid at the winning tempo is advanced
+ * every frame and nudged toward strong onsets so `isBeat` lands on the actual beat.
+ */
+export const createBeatTracker = (): BeatTracker => {
+  let prevSpectrum: Float32Array | null = null;
+  let bands = BANDS.map(createBandState);
+
+  const histogram = new Float32Array(TEMPO_MAX_BPM - TEMPO_MIN_BPM + 1);
+  let recentOnsets: { time: number; weight: number }[] = [];
+  let lastFrameTime = -1;
+
+  let bpm = 0;
+  let confidence = 0;
+  let nextBeatTime = 0;
+
+  const reset = () => {
+    prevSpectrum = null;
+    bands = BANDS.map(createBandState);
+    histogram.fill(0);
+    recentOnsets = [];
+    lastFrameTime = -1;
+    bpm = 0;
+    confidence = 0;
+    nextBeatTime = 0;
+  };
+
+  const voteTempo = (time: number, weight: number) => {
+    recentOnsets = recentOnsets.filter(o => time - o.time <= TEMPO_HISTORY_SECONDS);
+
+    for (const prev of recentOnsets) {
+      const interval = time - prev.time;
+      if (interval <= 0) continue;
+      let candidate = 60 / interval;
+      while (candidate < TEMPO_MIN_BPM) candidate *= 2;
+      while (candidate > TEMPO_MAX_BPM) candidate /= 2;
+
+      // Spread the vote over neighbouring bins so nearby tempos reinforce each other
+      const center = candidate - TEMPO_MIN_BPM;
+      const vote = weight * prev.weight;
+      for (let b = Math.floor(center) - 2; b <= Math.ceil(center) + 2; b++) {
+        if (b < 0 || b >= histogram.length) continue;
+        const d = b - center;
+        histogram[b] += vote * Math.exp(-(d * d) / 2);
+      }
+    }
+
+    recentOnsets.push({ time, weight });
+  };
+
+  const updateTempoEstimate = () => {
+    let total = 0;
+    let peakIndex = 0;
+    for (let i = 0; i < histogram.length; i++) {
+      total += histogram[i];
+      if (histogram[i] > histogram[peakIndex]) peakIndex = i;
+    }
+    if (total <= 0) {
+      confidence = 0;
+      return;
+    }
+
+    // Parabolic interpolation around the peak for sub-BPM resolution
+    let offset = 0;
+    if (peakIndex > 0 && peakIndex < histogram.length - 1) {
+      const l = histogram[peakIndex - 1];
+      const c = histogram[peakIndex];
+      const r = histogram[peakIndex + 1];
+      const denom = l - 2 * c + r;
+      if (denom !== 0) offset = 0.5 * (l - r) / denom;
+    }
+
+    // Sharpness of the peak relative to the whole histogram (a flat histogram means no tempo)
+    let peakMass = 0;
+    for (let i = Math.max(0, peakIndex - 2); i <= Math.min(histogram.length - 1, peakIndex + 2); i++) {
+      peakMass += histogram[i];
+    }
+    confidence = peakMass / total;
+    bpm = confidence >= TEMPO_MIN_CONFIDENCE ? TEMPO_MIN_BPM + peakIndex + offset : 0;
+  };
+
+  const process = (frequencyData: Uint8Array, time: number, sampleRate: number): BeatInfo => {
+    const length = frequencyData.length;
+    const { bassEnd, midEnd } = getBandBins(length, sampleRate);
+    const ranges: [number, number][] = [[0, bassEnd], [bassEnd, midEnd], [midEnd, length]];
+
+    if (!prevSpectrum || prevSpectrum.length !== length) {
+      prevSpectrum = new Float32Array(frequencyData);
+      lastFrameTime = time;
+      return { onsets: [], isBeat: false, bpm, beatPhase: 0, confidence };
+    }
+
+    // --- Histogram decay (time based, so the frame rate doesn't matter) ---
+    const dt = Math.max(0, time - lastFrameTime);
+    lastFrameTime = time;
+    if (dt > 0) {
+      const decay = Math.pow(0.5, dt / TEMPO_HALF_LIFE_SECONDS);
+      for (let i = 0; i < histogram.length; i++) histogram[i] *= decay;
+    }
+
+    // --- Onset Detection ---
+    const onsets: OnsetEvent[] = [];
+    const { beatThreshold, beatDecayRate } = getVisualConfig();
+    let tempoOnsetWeight = 0;
+
+    for (let b = 0; b < BANDS.length; b++) {
+      const [start, end] = ranges[b];
+      let flux = 0;
+      for (let i = start; i < end; i++) {
+        const diff = frequencyData[i] - prevSpectrum[i];
+        if (diff > 0) flux += diff;
+      }
+      flux /= (end - start) || 1;
+
+      const state = bands[b];
+      state.history.push({ time, flux });
+      while (state.history.length > 0 && time - state.history[0].time > ONSET_WINDOW_SECONDS) state.history.shift();
+
+      const threshold = median(state.history) * beatThreshold * state.thresholdBoost + ONSET_MIN_FLUX[b];
+
+      // Peak picking: the previous frame is an onset if it was a local maximum above its threshold
+      const candidate = state.prevFlux;
+      const isPeak = candidate > state.prevPrevFlux && candidate >= flux && candidate > state.prevThreshold;
+      if (isPeak && state.prevTime - state.lastOnsetTime >= ONSET_MIN_INTERVAL[b]) {
+        const strength = Math.min(1, (candidate - state.prevThreshold) / (state.prevThreshold || 1));
+        onsets.push({ band: BANDS[b], strength, time: state.prevTime });
+        state.lastOnsetTime = state.prevTime;
+        state.thresholdBoost = 1.5;
+        tempoOnsetWeight += TEMPO_BAND_WEIGHT[b] * (0.5 + strength);
+      } else {
+        state.thresholdBoost = Math.max(1, state.thresholdBoost * beatDecayRate);
+      }
+
+      state.prevPrevFlux = state.prevFlux;
+      state.prevFlux = flux;
+      state.prevTime = time;
+      state.prevThreshold = threshold;
+    }
+
+    prevSpectrum.set(frequencyData);
+
+    // --- Tempo Tracking ---
+    if (tempoOnsetWeight > 0) {
+      voteTempo(onsets[0].time, tempoOnsetWeight);
+      updateTempoEstimate();
+    }
+
+    let isBeat = false;
+    let beatPhase = 0;
+
+    if (bpm > 0) {
+      const period = 60 / bpm;
+
+      // (Re)start the grid on an onset when it was idle or fell far behind (e.g. after a pause)
+      if (nextBeatTime === 0 || time - nextBeatTime > period * 4) {
+        nextBeatTime = onsets.length > 0 ? onsets[0].time + period : time + period;
+      }
+
+      // Phase correction: pull the grid toward strong onsets that land near a beat
+      if (tempoOnsetWeight > 0) {
+        const onsetTime = onsets[0].time;
+        const lastBeat = nextBeatTime - period;
+        const error = Math.abs(onsetTime - lastBeat) < Math.abs(onsetTime - nextBeatTime)
+          ? onsetTime - lastBeat
+          : onsetTime - nextBeatTime;
+        if (Math.abs(error) < period * 0.25) nextBeatTime += error * BEAT_PHASE_CORRECTION;
+      }
+
+      if (time >= nextBeatTime) {
+        isBeat = true;
+        while (nextBeatTime <= time) nextBeatTime += period;
+      }
+      beatPhase = Math.min(1, Math.max(0, 1 - (nextBeatTime - time) / period));
+    } else {
+      nextBeatTime = 0;
+    }
+
+    return { onsets, isBeat, bpm, beatPhase, confidence };
+  };
+
+  return { process, reset };
+};
@@ -0,0 +1,30 @@
+/** Saves a blob through a temporary link, as the browser's download. */
+export const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  // Give the download a moment to start before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+/** Whether files can be written straight to disk (File System Access API, Chromium only). */
+export const canSaveToDisk = () => 'showSaveFilePicker' in window;
+
+/**
+ * Asks where to save `name` and opens it for writing, so large output can go to disk as it's
+ * produced. Must run from a click. Cancelling the picker rejects with an AbortError.
+ */
+export const openSaveFile = async (name: string, description: string, mimeType: string) => {
+  const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (!showSaveFilePicker) throw new DOMException('showSaveFilePicker is not available', 'NotSupportedError');
+  const extension = name.slice(name.lastIndexOf('.'));
+  const handle = await showSaveFilePicker({ suggestedName: name, types: [{ description, accept: { [mimeType]: [extension] } }] });
+  return handle.createWritable();
+};
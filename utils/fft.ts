@@ -0,0 +1,88 @@
+/**
+ * Minimal radix-2 FFT plus an AnalyserNode-compatible byte spectrum, so offline
+ * analysis sees the same numbers `getByteFrequencyData` produces during playback.
+ */
+
+export interface SpectrumAnalyser {
+  /**
+   * Writes the byte spectrum of `samples[offset .. offset + fftSize)` into `out` (fftSize / 2 bins),
+   * and the unscaled decibels into `decibels` if given (like `getFloatFrequencyData`).
+   */
+  process: (samples: Float32Array, offset: number, out: Uint8Array, decibels?: Float32Array) => void;
+}
+
+// AnalyserNode defaults
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+const SMOOTHING_TIME_CONSTANT = 0.8;
+
+export const createSpectrumAnalyser = (fftSize: number): SpectrumAnalyser => {
+  const bins = fftSize / 2;
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const smoothed = new Float32Array(bins);
+
+  // Blackman window, as used by AnalyserNode
+  const window = new Float32Array(fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    const x = i / fftSize;
+    window[i] = 0.42 - 0.5 * Math.cos(2 * Math.PI * x) + 0.08 * Math.cos(4 * Math.PI * x);
+  }
+
+  const reversed = new Uint32Array(fftSize);
+  const levels = Math.log2(fftSize);
+  for (let i = 0; i < fftSize; i++) {
+    let r = 0;
+    for (let b = 0; b < levels; b++) r |= ((i >> b) & 1) << (levels - 1 - b);
+    reversed[i] = r;
+  }
+
+  const cosTable = new Float32Array(bins);
+  const sinTable = new Float32Array(bins);
+  for (let i = 0; i < bins; i++) {
+    cosTable[i] = Math.cos(2 * Math.PI * i / fftSize);
+    sinTable[i] = -Math.sin(2 * Math.PI * i / fftSize);
+  }
+
+  const transform = () => {
+    for (let size = 2; size <= fftSize; size <<= 1) {
+      const half = size >> 1;
+      const step = fftSize / size;
+      for (let start = 0; start < fftSize; start += size) {
+        for (let j = 0; j < half; j++) {
+          const k = j * step;
+          const a = start + j;
+          const b = a + half;
+          const tRe = re[b] * cosTable[k] - im[b] * sinTable[k];
+          const tIm = re[b] * sinTable[k] + im[b] * cosTable[k];
+          re[b] = re[a] - tRe;
+          im[b] = im[a] - tIm;
+          re[a] += tRe;
+          im[a] += tIm;
+        }
+      }
+    }
+  };
+
+  return {
+    process: (samples, offset, out, decibels) => {
+      for (let i = 0; i < fftSize; i++) {
+        const index = offset + i;
+        const value = index >= 0 && index < samples.length ? samples[index] : 0;
+        re[reversed[i]] = value * window[i];
+        im[reversed[i]] = 0;
+      }
+
+      transform();
+
+      const range = MAX_DECIBELS - MIN_DECIBELS;
+      for (let i = 0; i < bins; i++) {
+        const magnitude = Math.hypot(re[i], im[i]) / fftSize;
+        smoothed[i] = SMOOTHING_TIME_CONSTANT * smoothed[i] + (1 - SMOOTHING_TIME_CONSTANT) * magnitude;
+        const db = smoothed[i] > 0 ? 20 * Math.log10(smoothed[i]) : -Infinity;
+        if (decibels) decibels[i] = db;
+        out[i] = Math.max(0, Math.min(255, Math.floor(255 * (db - MIN_DECIBELS) / range)));
+      }
+    }
+  };
+};
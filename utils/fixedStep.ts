@@ -0,0 +1,37 @@
+import { SIMULATION_FRAME_RATE, SIMULATION_MAX_CATCH_UP_MS } from '../constants';
+
+/**
+ * Turns display frames into fixed simulation steps, so the physics runs at the same rate on a
+ * 60 Hz and a 144 Hz screen. What's drawn is interpolated between the last two steps.
+ */
+export interface FixedStepClock {
+  /** Feeds the frame timestamp (ms) and returns how many steps to simulate for it. */
+  advance: (now: number) => number;
+  /** 0-1 position between the previous and the latest step, for drawing. */
+  readonly interpolation: number;
+  /** Forgets the elapsed time, e.g. after a pause. */
+  reset: () => void;
+}
+
+export const createFixedStepClock = (stepsPerSecond = SIMULATION_FRAME_RATE): FixedStepClock => {
+  const stepMs = 1000 / stepsPerSecond;
+  let lastTime: number | null = null;
+  let accumulator = 0;
+
+  return {
+    advance: (now: number) => {
+      // Background tabs and breakpoints would otherwise replay seconds of physics in one frame
+      const elapsed = lastTime === null ? stepMs : Math.min(SIMULATION_MAX_CATCH_UP_MS, Math.max(0, now - lastTime));
+      lastTime = now;
+      accumulator += elapsed;
+      const steps = Math.floor(accumulator / stepMs);
+      accumulator -= steps * stepMs;
+      return steps;
+    },
+    get interpolation() { return accumulator / stepMs; },
+    reset: () => {
+      lastTime = null;
+      accumulator = 0;
+    }
+  };
+};
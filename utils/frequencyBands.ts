@@ -0,0 +1,102 @@
+import { BandDefinition, BandEnergy, BandSpacing, FrequencyBand } from '../types';
+import { BASS_MAX_HZ, MID_MAX_HZ, DEFAULT_BAND_LAYOUT } from '../constants';
+
+export interface BandLayoutOptions {
+  count: number;
+  minHz: number;
+  maxHz: number;
+  spacing: BandSpacing;
+  weight?: number;
+  smoothing?: number;
+}
+
+export interface BandAnalyzer {
+  bands: BandDefinition[];
+  /** Band energies for one frame of byte frequency data. The returned array is reused. */
+  process: (frequencyData: Uint8Array, sampleRate: number) => BandEnergy[];
+}
+
+// --- Frequency scales (forward / inverse) ---
+const SCALES: Record<BandSpacing, { to: (hz: number) => number; from: (v: number) => number }> = {
+  linear: { to: hz => hz, from: v => v },
+  log: { to: hz => Math.log(Math.max(1, hz)), from: v => Math.exp(v) },
+  mel: { to: hz => 2595 * Math.log10(1 + hz / 700), from: v => 700 * (Math.pow(10, v / 2595) - 1) },
+  // Traunmüller's approximation, which unlike Zwicker's has a closed-form inverse
+  bark: { to: hz => (26.81 * hz) / (1960 + hz) - 0.53, from: z => (1960 * (z + 0.53)) / (26.28 - z) }
+};
+
+export const groupForFrequency = (hz: number): FrequencyBand => {
+  if (hz < BASS_MAX_HZ) return 'bass';
+  if (hz < MID_MAX_HZ) return 'mid';
+  return 'treble';
+};
+
+const formatHz = (hz: number) => hz >= 1000 ? `${(hz / 1000).toFixed(hz >= 10000 ? 0 : 1)}k` : `${Math.round(hz)}`;
+
+/**
+ * Splits [minHz, maxHz] into `count` bands evenly spaced on the chosen scale.
+ */
+export const createBandLayout = (options: BandLayoutOptions): BandDefinition[] => {
+  const scale = SCALES[options.spacing];
+  const lo = scale.to(options.minHz);
+  const hi = scale.to(options.maxHz);
+  const bands: BandDefinition[] = [];
+
+  for (let i = 0; i < options.count; i++) {
+    const minHz = scale.from(lo + ((hi - lo) * i) / options.count);
+    const maxHz = scale.from(lo + ((hi - lo) * (i + 1)) / options.count);
+    bands.push({
+      name: `${formatHz(minHz)}-${formatHz(maxHz)}`,
+      minHz,
+      maxHz,
+      weight: options.weight,
+      smoothing: options.smoothing
+    });
+  }
+  return bands;
+};
+
+export const DEFAULT_BANDS: BandDefinition[] = createBandLayout(DEFAULT_BAND_LAYOUT);
+
+/**
+ * Maps a frequency range to analyser bins [start, end). Always at least one bin wide,
+ * so narrow low bands still read something at small FFT sizes.
+ */
+export const getBinRange = (minHz: number, maxHz: number, binCount: number, sampleRate: number): [number, number] => {
+  const binHz = sampleRate / (binCount * 2);
+  const start = Math.min(binCount - 1, Math.max(0, Math.floor(minHz / binHz)));
+  const end = Math.min(binCount, Math.max(start + 1, Math.ceil(maxHz / binHz)));
+  return [start, end];
+};
+
+export const createBandAnalyzer = (bands: BandDefinition[] = DEFAULT_BANDS): BandAnalyzer => {
+  const results: BandEnergy[] = bands.map(b => {
+    const centerHz = Math.sqrt(Math.max(1, b.minHz) * b.maxHz);
+    return { name: b.name, group: b.group ?? groupForFrequency(centerHz), centerHz, energy: 0 };
+  });
+  let ranges: [number, number][] = [];
+  let rangeKey = '';
+
+  return {
+    bands,
+    process: (frequencyData, sampleRate) => {
+      // Bin ranges only change with the FFT size or sample rate
+      const key = `${frequencyData.length}@${sampleRate}`;
+      if (key !== rangeKey) {
+        ranges = bands.map(b => getBinRange(b.minHz, b.maxHz, frequencyData.length, sampleRate));
+        rangeKey = key;
+      }
+
+      for (let b = 0; b < bands.length; b++) {
+        const [start, end] = ranges[b];
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += frequencyData[i];
+
+        const raw = Math.min(255, (sum / (end - start)) * (bands[b].weight ?? 1));
+        const smoothing = bands[b].smoothing ?? 0;
+        results[b].energy = results[b].energy * smoothing + raw * (1 - smoothing);
+      }
+      return results;
+    }
+  };
+};
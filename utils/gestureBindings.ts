@@ -0,0 +1,154 @@
+import { GestureAction, GestureBinding, GestureName } from '../types';
+import { readStorage, writeStorage } from './storage';
+import { GESTURE_RELEASE_GRACE_MS } from '../constants';
+
+export type GestureBindings = Record<GestureName, GestureBinding>;
+
+export const GESTURE_LABELS: Record<GestureName, string> = {
+  Open_Palm: 'Open Palm',
+  Closed_Fist: 'Fist',
+  Pointing_Up: 'Point Up',
+  Thumb_Up: 'Thumb Up',
+  Thumb_Down: 'Thumb Down',
+  Victory: 'Victory',
+  ILoveYou: 'Love You'
+};
+
+export const GESTURE_NAMES = Object.keys(GESTURE_LABELS) as GestureName[];
+
+export const GESTURE_ACTION_LABELS: Record<GestureAction, string> = {
+  none: 'Nothing',
+  freezePan: 'Freeze + Pan',
+  playPause: 'Play / Pause',
+  nextTrack: 'Next Track',
+  previousTrack: 'Previous Track',
+  switchPalette: 'Switch Palette',
+  burst: 'Snowflake Burst',
+  volumeUp: 'Volume Up',
+  volumeDown: 'Volume Down',
+  resetView: 'Reset Zoom'
+};
+
+// Actions that last as long as the gesture is held instead of firing
+const CONTINUOUS_ACTIONS: GestureAction[] = ['freezePan'];
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  Open_Palm: { action: 'freezePan', minScore: 0.5, holdMs: 0, repeatMs: 0 },
+  Closed_Fist: { action: 'playPause', minScore: 0.6, holdMs: 700, repeatMs: 0 },
+  Pointing_Up: { action: 'burst', minScore: 0.6, holdMs: 150, repeatMs: 600 },
+  Thumb_Up: { action: 'volumeUp', minScore: 0.6, holdMs: 300, repeatMs: 300 },
+  Thumb_Down: { action: 'volumeDown', minScore: 0.6, holdMs: 300, repeatMs: 300 },
+  Victory: { action: 'nextTrack', minScore: 0.6, holdMs: 800, repeatMs: 0 },
+  ILoveYou: { action: 'switchPalette', minScore: 0.6, holdMs: 600, repeatMs: 0 }
+};
+
+const BINDINGS_STORAGE_KEY = 'visualizer.gestureBindings';
+
+export const isGestureName = (name: string): name is GestureName => name in GESTURE_LABELS;
+
+// Stored bindings are merged over the defaults, so gestures added later get a binding
+const loadStoredBindings = (): GestureBindings => {
+  const stored = readStorage(BINDINGS_STORAGE_KEY);
+  const bindings = { ...DEFAULT_GESTURE_BINDINGS };
+  if (typeof stored !== 'object' || stored === null) return bindings;
+  for (const name of GESTURE_NAMES) {
+    const binding = (stored as Record<string, Partial<GestureBinding> | undefined>)[name];
+    if (!binding || !(binding.action && binding.action in GESTURE_ACTION_LABELS)) continue;
+    bindings[name] = { ...DEFAULT_GESTURE_BINDINGS[name], ...binding };
+  }
+  return bindings;
+};
+
+let current = loadStoredBindings();
+const listeners = new Set<() => void>();
+
+/** The user's bindings, persisted in localStorage. Snapshots are replaced on change (useSyncExternalStore). */
+export const getGestureBindings = () => current;
+
+export const setGestureBinding = (name: GestureName, patch: Partial<GestureBinding>) => {
+  current = { ...current, [name]: { ...current[name], ...patch } };
+  writeStorage(BINDINGS_STORAGE_KEY, current);
+  listeners.forEach(listener => listener());
+};
+
+export const resetGestureBindings = () => {
+  current = DEFAULT_GESTURE_BINDINGS;
+  writeStorage(BINDINGS_STORAGE_KEY, current);
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeGestureBindings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export interface GestureState {
+  gesture: GestureName | null; // The bound gesture being held
+  action: GestureAction;
+  progress: number; // 0-1 of the hold time
+  active: boolean; // Held long enough (continuous actions apply while this is set)
+  fired: GestureAction | null; // Set on the frame a one-shot action triggers
+}
+
+const IDLE: GestureState = { gesture: null, action: 'none', progress: 0, active: false, fired: null };
+
+/**
+ * Turns per-frame recognizer results into actions: a gesture has to clear its binding's
+ * confidence threshold and be held for `holdMs`, then fires once (or every `repeatMs`).
+ * Short dropouts, which the recognizer has between otherwise steady frames, are bridged.
+ */
+export interface GestureInterpreter {
+  /** `gesture` is the recognizer's category name, `time` in ms. */
+  update: (gesture: string, score: number, time: number) => GestureState;
+  reset: () => void;
+}
+
+export const createGestureInterpreter = (): GestureInterpreter => {
+  let held: GestureName | null = null;
+  let heldSince = 0;
+  let lastSeen = 0;
+  let lastFired: number | null = null;
+
+  const reset = () => {
+    held = null;
+    lastFired = null;
+  };
+
+  const update = (gesture: string, score: number, time: number): GestureState => {
+    const bindings = current;
+    const recognized = isGestureName(gesture)
+      && bindings[gesture].action !== 'none'
+      && score >= bindings[gesture].minScore
+      ? gesture
+      : null;
+
+    if (recognized) {
+      if (recognized !== held) {
+        held = recognized;
+        heldSince = time;
+        lastFired = null;
+      }
+      lastSeen = time;
+    } else if (held && time - lastSeen > GESTURE_RELEASE_GRACE_MS) {
+      reset();
+    }
+    if (!held) return IDLE;
+
+    const { action, holdMs, repeatMs } = bindings[held];
+    const progress = holdMs > 0 ? Math.min(1, (time - heldSince) / holdMs) : 1;
+    const active = progress >= 1;
+    let fired: GestureAction | null = null;
+    // Only on frames that actually saw the gesture, a dropout never triggers anything
+    if (active && recognized && !CONTINUOUS_ACTIONS.includes(action)) {
+      if (lastFired === null || (repeatMs > 0 && time - lastFired >= repeatMs)) {
+        fired = action;
+        lastFired = time;
+      }
+    }
+    return { gesture: held, action, progress, active, fired };
+  };
+
+  return { update, reset };
+};
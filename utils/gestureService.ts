@@ -1,32 +1,70 @@
 import { GestureRecognizer, FilesetResolver } from '@mediapipe/tasks-vision';
+import { readStorage, writeStorage } from './storage';
 
-let gestureRecognizerInstance: GestureRecognizer | null = null;
-let initializationPromise: Promise<GestureRecognizer> | null = null;
+export type GestureDelegate = 'GPU' | 'CPU';
 
-export const getGestureRecognizer = async (): Promise<GestureRecognizer> => {
-  // Return existing instance if available
-  if (gestureRecognizerInstance) return gestureRecognizerInstance;
-  
+export interface LoadedGestureRecognizer {
+  recognizer: GestureRecognizer;
+  delegate: GestureDelegate; // What actually runs it, CPU when the GPU couldn't be used
+}
+
+// Self-hosted by the mediapipe-assets plugin (vite.config.ts), overridable with MEDIAPIPE_ASSET_BASE
+const ASSET_BASE = (process.env.MEDIAPIPE_ASSET_BASE || '/mediapipe/').replace(/\/?$/, '/');
+const DELEGATE_STORAGE_KEY = 'visualizer.gestureDelegate';
+
+const recognizers = new Map<GestureDelegate, Promise<LoadedGestureRecognizer>>();
+
+export const loadGestureDelegate = (): GestureDelegate => readStorage(DELEGATE_STORAGE_KEY) === 'CPU' ? 'CPU' : 'GPU';
+
+export const saveGestureDelegate = (delegate: GestureDelegate) => writeStorage(DELEGATE_STORAGE_KEY, delegate);
+
+/** Loads (once per delegate) the gesture recognizer, falling back to the CPU when the GPU delegate fails. */
+export const getGestureRecognizer = (delegate: GestureDelegate = 'GPU'): Promise<LoadedGestureRecognizer> => {
   // Prevent multiple simultaneous initializations
-  if (!initializationPromise) {
-    initializationPromise = (async () => {
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.8/wasm"
-      );
-      
-      const recognizer = await GestureRecognizer.createFromOptions(vision, {
+  let loading = recognizers.get(delegate);
+  if (!loading) {
+    loading = (async () => {
+      const vision = await FilesetResolver.forVisionTasks(`${ASSET_BASE}wasm`);
+
+      const create = (target: GestureDelegate) => GestureRecognizer.createFromOptions(vision, {
         baseOptions: {
-          modelAssetPath: "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-          delegate: "CPU"
+          modelAssetPath: `${ASSET_BASE}gesture_recognizer.task`,
+          delegate: target
         },
         runningMode: "VIDEO",
-        numHands: 1
+        numHands: 2
       });
-      
-      gestureRecognizerInstance = recognizer;
-      return recognizer;
+
+      if (delegate === 'GPU') {
+        try {
+          return { recognizer: await create('GPU'), delegate: 'GPU' as const };
+        } catch (error) {
+          console.warn('GPU delegate unavailable, running gestures on the CPU', error);
+        }
+      }
+      return { recognizer: await create('CPU'), delegate: 'CPU' as const };
     })();
+    recognizers.set(delegate, loading);
+    // A failed load can be retried (e.g. once the assets are reachable)
+    loading.catch(() => recognizers.delete(delegate));
+  }
+  return loading;
+};
+
+/** Camera status text for a getUserMedia failure. */
+export const describeCameraError = (error: unknown) => {
+  const name = error instanceof DOMException ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'Camera Denied';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'No Camera';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'Camera In Use';
+    default:
+      return 'Camera Error';
   }
-  
-  return initializationPromise;
-};
\ No newline at end of file
+};
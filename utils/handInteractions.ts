@@ -0,0 +1,90 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import { HAND_PINCH_CLOSE, HAND_PINCH_OPEN, HAND_ZOOM_MIN, HAND_ZOOM_MAX } from '../constants';
+
+// MediaPipe hand landmark indices
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_MCP = 9; // Palm center, also what open-palm panning follows
+
+export interface HandInteractionState {
+  /** Pinches that started this frame, in 0-1 screen coordinates (mirrored like a selfie view). */
+  pinches: { x: number; y: number }[];
+  zoom: number; // Scene scale set by spreading two hands apart
+  roll: number; // Radians, set by turning two hands like a steering wheel
+  twoHands: boolean;
+}
+
+/**
+ * Continuous landmark interactions on top of the recognizer's gesture categories:
+ * pinch (per hand) to spawn, and with both hands in view, spread to zoom and turn to rotate.
+ * Zoom and roll are relative to where both hands first appeared and stay after they leave.
+ */
+export interface HandInteractions {
+  /** `hands` are the recognizer's landmarks per hand, `handedness` their 'Left'/'Right' labels. */
+  update: (hands: NormalizedLandmark[][], handedness: string[]) => HandInteractionState;
+  /** Back to no zoom and no roll. */
+  resetView: () => void;
+}
+
+const distance = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const createHandInteractions = (): HandInteractions => {
+  const pinching = new Map<string, boolean>();
+  let zoom = 1;
+  let roll = 0;
+  // Spread/turn baseline, set when both hands come into view
+  let baseline: { distance: number; angle: number; zoom: number; roll: number } | null = null;
+
+  const update = (hands: NormalizedLandmark[][], handedness: string[]): HandInteractionState => {
+    const pinches: { x: number; y: number }[] = [];
+    const seen = new Set<string>();
+
+    hands.forEach((landmarks, i) => {
+      if (landmarks.length <= MIDDLE_MCP) return;
+      const key = handedness[i] ?? String(i);
+      seen.add(key);
+      const palm = distance(landmarks[WRIST], landmarks[MIDDLE_MCP]) || 1;
+      const ratio = distance(landmarks[THUMB_TIP], landmarks[INDEX_TIP]) / palm;
+      const wasPinching = pinching.get(key) ?? false;
+      const isPinching = wasPinching ? ratio < HAND_PINCH_OPEN : ratio < HAND_PINCH_CLOSE;
+      pinching.set(key, isPinching);
+      if (isPinching && !wasPinching) {
+        const thumb = landmarks[THUMB_TIP];
+        const index = landmarks[INDEX_TIP];
+        pinches.push({ x: 1 - (thumb.x + index.x) / 2, y: (thumb.y + index.y) / 2 });
+      }
+    });
+    for (const key of pinching.keys()) if (!seen.has(key)) pinching.delete(key);
+
+    const twoHands = hands.length >= 2 && hands[0].length > MIDDLE_MCP && hands[1].length > MIDDLE_MCP;
+    if (twoHands) {
+      // Left to right on screen, so the angle doesn't flip when the recognizer reorders hands
+      const [a, b] = [hands[0][MIDDLE_MCP], hands[1][MIDDLE_MCP]].sort((p, q) => q.x - p.x);
+      const spread = distance(a, b);
+      const angle = Math.atan2(b.y - a.y, a.x - b.x);
+      if (!baseline) {
+        baseline = { distance: spread || 1, angle, zoom, roll };
+      } else {
+        zoom = Math.min(HAND_ZOOM_MAX, Math.max(HAND_ZOOM_MIN, baseline.zoom * (spread / baseline.distance)));
+        let turn = angle - baseline.angle;
+        if (turn > Math.PI) turn -= Math.PI * 2;
+        if (turn < -Math.PI) turn += Math.PI * 2;
+        roll = baseline.roll + turn;
+      }
+    } else {
+      baseline = null;
+    }
+
+    return { pinches, zoom, roll, twoHands };
+  };
+
+  return {
+    update,
+    resetView: () => {
+      zoom = 1;
+      roll = 0;
+      baseline = null;
+    }
+  };
+};
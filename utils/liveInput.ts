@@ -0,0 +1,117 @@
+import {
+  NOISE_GATE_ATTACK,
+  NOISE_GATE_RELEASE,
+  NOISE_GATE_HOLD_MS,
+  NOISE_GATE_HYSTERESIS_DB
+} from '../constants';
+
+export interface LiveInputOptions {
+  deviceId?: string;
+  gain: number; // Linear input gain applied before the gate
+  gateThresholdDb: number; // Input level (dBFS) that opens the gate
+  onGateChange?: (open: boolean) => void;
+}
+
+export interface LiveInput {
+  stream: MediaStream;
+  setGain: (gain: number) => void;
+  setGateThreshold: (db: number) => void;
+  stop: () => void;
+}
+
+/**
+ * Lists the available audio input devices (microphones, line-in, audio interfaces).
+ * Labels are only filled in by the browser once microphone permission was granted.
+ */
+export const listAudioInputs = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput');
+};
+
+/**
+ * Opens an input device and routes it into the given analyser:
+ * stream -> input gain -> noise gate -> analyser.
+ *
+ * The chain is deliberately never connected to ctx.destination so the
+ * room mic can't feed back through the PA.
+ */
+export const startLiveInput = async (
+  ctx: AudioContext,
+  analyser: AnalyserNode,
+  options: LiveInputOptions
+): Promise<LiveInput> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      deviceId: options.deviceId ? { exact: options.deviceId } : undefined,
+      // Browser voice processing mangles music, we want the raw signal
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false
+    }
+  });
+
+  const source = ctx.createMediaStreamSource(stream);
+  const inputGain = ctx.createGain();
+  const gate = ctx.createGain();
+  const meter = ctx.createAnalyser();
+
+  inputGain.gain.value = options.gain;
+  gate.gain.value = 0;
+  meter.fftSize = 1024;
+
+  source.connect(inputGain);
+  inputGain.connect(meter);
+  inputGain.connect(gate);
+  gate.connect(analyser);
+
+  // --- Noise Gate ---
+  // Measures the post-gain level and opens/closes the gate gain with
+  // hysteresis + hold so sustained notes don't chatter.
+  const samples = new Float32Array(meter.fftSize);
+  let thresholdDb = options.gateThresholdDb;
+  let isOpen = false;
+  let holdUntil = 0;
+
+  const updateGate = () => {
+    meter.getFloatTimeDomainData(samples);
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const rms = Math.sqrt(sum / samples.length);
+    const levelDb = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+
+    const now = performance.now();
+    let shouldOpen = isOpen;
+    if (levelDb > thresholdDb) {
+      shouldOpen = true;
+      holdUntil = now + NOISE_GATE_HOLD_MS;
+    } else if (levelDb < thresholdDb - NOISE_GATE_HYSTERESIS_DB && now > holdUntil) {
+      shouldOpen = false;
+    }
+
+    if (shouldOpen !== isOpen) {
+      isOpen = shouldOpen;
+      gate.gain.setTargetAtTime(isOpen ? 1 : 0, ctx.currentTime, isOpen ? NOISE_GATE_ATTACK : NOISE_GATE_RELEASE);
+      if (options.onGateChange) options.onGateChange(isOpen);
+    }
+  };
+
+  const gateInterval = window.setInterval(updateGate, 10);
+
+  return {
+    stream,
+    setGain: (gain: number) => {
+      inputGain.gain.setTargetAtTime(gain, ctx.currentTime, 0.02);
+    },
+    setGateThreshold: (db: number) => {
+      thresholdDb = db;
+    },
+    stop: () => {
+      window.clearInterval(gateInterval);
+      stream.getTracks().forEach(t => t.stop());
+      try { source.disconnect(); } catch(e) {}
+      try { gate.disconnect(); } catch(e) {}
+      if (options.onGateChange) options.onGateChange(false);
+    }
+  };
+};
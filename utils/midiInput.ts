@@ -0,0 +1,236 @@
+import { BurstOptions, FrequencyBand, MidiCcTarget, MidiLearnTarget, MidiMappings } from '../types';
+import { readStorage, writeStorage } from './storage';
+import { setVisualConfig } from './visualConfig';
+
+// Same ranges as the Look sliders; a CC's 0-127 sweeps the whole range
+export const MIDI_CC_TARGETS: Record<MidiCcTarget, { label: string; min: number; max: number }> = {
+  gravity: { label: 'Gravity', min: 0, max: 0.2 },
+  friction: { label: 'Friction', min: 0.8, max: 1 },
+  energyMultiplier: { label: 'Burst', min: 0.5, max: 12 },
+  baseParticleSize: { label: 'Size', min: 0.1, max: 3 },
+  beatThreshold: { label: 'Beat Threshold', min: 1, max: 3 }
+};
+
+export const MIDI_CC_TARGET_NAMES = Object.keys(MIDI_CC_TARGETS) as MidiCcTarget[];
+
+const BANDS: FrequencyBand[] = ['bass', 'mid', 'treble'];
+
+// Akai-style 4x4 pads start at note 36: the bottom row fires bass, the second mid, the rest treble
+export const DEFAULT_MIDI_MAPPINGS: MidiMappings = {
+  noteRanges: { bass: [0, 39], mid: [40, 43], treble: [44, 127] },
+  ccs: {}
+};
+
+const MAPPINGS_STORAGE_KEY = 'visualizer.midiMappings';
+
+const isNote = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 127;
+
+// Stored mappings are validated entry by entry, anything unusable keeps the default
+const loadStoredMappings = (): MidiMappings => {
+  const stored = readStorage(MAPPINGS_STORAGE_KEY) as Partial<Record<keyof MidiMappings, Record<string, unknown>>> | null;
+  const mappings: MidiMappings = { noteRanges: { ...DEFAULT_MIDI_MAPPINGS.noteRanges }, ccs: {} };
+  if (typeof stored !== 'object' || stored === null) return mappings;
+
+  for (const band of BANDS) {
+    const range = stored.noteRanges?.[band];
+    if (Array.isArray(range) && isNote(range[0]) && isNote(range[1]) && range[0] <= range[1]) {
+      mappings.noteRanges[band] = [range[0], range[1]];
+    }
+  }
+  for (const [controller, target] of Object.entries(stored.ccs ?? {})) {
+    if (isNote(Number(controller)) && typeof target === 'string' && target in MIDI_CC_TARGETS) {
+      mappings.ccs[Number(controller)] = target as MidiCcTarget;
+    }
+  }
+  return mappings;
+};
+
+let current = loadStoredMappings();
+const listeners = new Set<() => void>();
+
+/** Note ranges and CC bindings, persisted in localStorage. Snapshots are replaced on change (useSyncExternalStore). */
+export const getMidiMappings = () => current;
+
+export const setMidiMappings = (patch: Partial<MidiMappings>) => {
+  current = { ...current, ...patch };
+  writeStorage(MAPPINGS_STORAGE_KEY, current);
+  listeners.forEach(listener => listener());
+};
+
+export const resetMidiMappings = () => setMidiMappings(DEFAULT_MIDI_MAPPINGS);
+
+const getCcsWithout = (target: MidiCcTarget) => {
+  const ccs: Record<number, MidiCcTarget> = {};
+  for (const [cc, bound] of Object.entries(current.ccs) as [string, MidiCcTarget][]) {
+    if (bound !== target) ccs[Number(cc)] = bound;
+  }
+  return ccs;
+};
+
+export const unbindMidiCc = (target: MidiCcTarget) => setMidiMappings({ ccs: getCcsWithout(target) });
+
+export const subscribeMidiMappings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * The band a note fires. Ranges may overlap; the narrowest one holding the note wins,
+ * so a single learned pad beats a wide default range.
+ */
+export const getNoteBand = (note: number, mappings: MidiMappings = current): FrequencyBand | null => {
+  let best: FrequencyBand | null = null;
+  let bestWidth = Infinity;
+  for (const band of BANDS) {
+    const [low, high] = mappings.noteRanges[band];
+    if (note >= low && note <= high && high - low < bestWidth) {
+      best = band;
+      bestWidth = high - low;
+    }
+  }
+  return best;
+};
+
+export type MidiMessage =
+  | { type: 'noteOn'; channel: number; note: number; velocity: number }
+  | { type: 'cc'; channel: number; controller: number; value: number };
+
+/** Decodes the channel messages we react to; everything else (clock, sysex, note-off) is null. */
+export const parseMidiMessage = (data: ArrayLike<number>): MidiMessage | null => {
+  if (data.length < 3) return null;
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+  // Note-on with velocity 0 is how many devices send note-off
+  if (status === 0x90 && data[2] > 0) return { type: 'noteOn', channel, note: data[1], velocity: data[2] };
+  if (status === 0xb0) return { type: 'cc', channel, controller: data[1], value: data[2] };
+  return null;
+};
+
+// --- Access ---
+
+export interface MidiInputHandlers {
+  /** A mapped note-on: its band, and the velocity as a 0-1 intensity. */
+  onTrigger: (options: BurstOptions) => void;
+  onInputsChange?: (names: string[]) => void;
+  /** Learning started, moved on, or finished (null). */
+  onLearnChange?: (target: MidiLearnTarget | null) => void;
+}
+
+/**
+ * Listens to every connected MIDI input (hot-plugged ones too): note-ons fire snowflakes in the
+ * mapped band, CCs bound to a parameter set it live. While learning, the next note(s) or CC
+ * update the mappings instead.
+ */
+export interface MidiInput {
+  learn: (target: MidiLearnTarget | null) => void;
+  /** Feeds one raw message in, as an input port would. */
+  handleMessage: (data: ArrayLike<number>) => void;
+  dispose: () => void;
+}
+
+/**
+ * Wires up an existing MIDIAccess. Taking the access object (rather than requesting it) keeps
+ * this independent of the browser: a mock with `inputs` and `onstatechange` drives it the same way.
+ */
+export const createMidiInput = (access: MIDIAccess, handlers: MidiInputHandlers): MidiInput => {
+  let learning: MidiLearnTarget | null = null;
+  let learnFirstNote: number | null = null;
+
+  const learn = (target: MidiLearnTarget | null) => {
+    learning = target;
+    learnFirstNote = null;
+    if (handlers.onLearnChange) handlers.onLearnChange(target);
+  };
+
+  const learnNote = (band: FrequencyBand, note: number) => {
+    if (learnFirstNote === null) {
+      learnFirstNote = note;
+      return;
+    }
+    const range: [number, number] = [Math.min(learnFirstNote, note), Math.max(learnFirstNote, note)];
+    setMidiMappings({ noteRanges: { ...current.noteRanges, [band]: range } });
+    learn(null);
+  };
+
+  const learnCc = (target: MidiCcTarget, controller: number) => {
+    // One knob per parameter: drop whatever controlled it before
+    setMidiMappings({ ccs: { ...getCcsWithout(target), [controller]: target } });
+    learn(null);
+  };
+
+  const handleMessage = (data: ArrayLike<number>) => {
+    const message = parseMidiMessage(data);
+    if (!message) return;
+
+    if (message.type === 'noteOn') {
+      if (learning?.type === 'band') {
+        learnNote(learning.band, message.note);
+        return;
+      }
+      const band = getNoteBand(message.note);
+      if (band) handlers.onTrigger({ band, intensity: message.velocity / 127 });
+    } else {
+      if (learning?.type === 'cc') {
+        learnCc(learning.target, message.controller);
+        return;
+      }
+      const target = current.ccs[message.controller];
+      if (!target) return;
+      const { min, max } = MIDI_CC_TARGETS[target];
+      setVisualConfig({ [target]: min + (message.value / 127) * (max - min) });
+    }
+  };
+
+  const handleEvent = (event: MIDIMessageEvent) => {
+    if (event.data) handleMessage(event.data);
+  };
+
+  // Setting onmidimessage (unlike addEventListener) also opens the port
+  const attachInputs = () => {
+    const names: string[] = [];
+    access.inputs.forEach(input => {
+      input.onmidimessage = handleEvent;
+      if (input.state === 'connected') names.push(input.name || 'MIDI Input');
+    });
+    if (handlers.onInputsChange) handlers.onInputsChange(names);
+  };
+
+  access.onstatechange = attachInputs;
+  attachInputs();
+
+  return {
+    learn,
+    handleMessage,
+    dispose: () => {
+      access.onstatechange = null;
+      access.inputs.forEach(input => {
+        input.onmidimessage = null;
+      });
+    }
+  };
+};
+
+/** Asks for MIDI access (no sysex, which would prompt for more than we need). */
+export const requestMidiAccess = (): Promise<MIDIAccess> => {
+  if (!navigator.requestMIDIAccess) {
+    return Promise.reject(new DOMException('Web MIDI is not available', 'NotSupportedError'));
+  }
+  return navigator.requestMIDIAccess({ sysex: false });
+};
+
+/** Error text for MIDI access that couldn't be opened. */
+export const describeMidiError = (error: unknown) => {
+  const name = error instanceof DOMException ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'MIDI access was blocked.';
+    case 'NotSupportedError':
+      return 'Web MIDI isn\'t supported in this browser.';
+    default:
+      return 'Could not open MIDI.';
+  }
+};
@@ -0,0 +1,409 @@
+import { FrequencyBand, BeatInfo, AudioData, BurstOptions, DrawingContext, WindGust } from '../types';
+import { getBandEnergy, getDominantBand } from './audioUtils';
+import { OverlayPalette, hslToRgbString } from './overlays';
+import { Random, createRandom, forkRandom } from './random';
+import { CANVAS_SCENE, MAX_SHARD_SIDES, SceneOptions, ShardPool, SHARD_CHANNELS, createParticlePool, stepParticles } from './particlePool';
+import { getVisualConfig } from './visualConfig';
+import { SECTION_INTENSITY, SPAWN_ENERGY_FLOOR, WIND_RADIUS, WIND_STRENGTH } from '../constants';
+
+// Trail fade per simulation step, rgba(10, 5, 20, 0.2)
+export const NEON_TRAIL: [number, number, number, number] = [10 / 255, 5 / 255, 20 / 255, 0.2];
+
+const HUE_DRIFT = 0.05; // Degrees per ms of show time
+
+// Base hue per band, cycled by the switch palette gesture
+const NEON_PALETTES: Record<FrequencyBand, number>[] = [
+  { bass: 280, mid: 180, treble: 320 }, // Neon
+  { bass: 20, mid: 45, treble: 350 }, // Ember
+  { bass: 140, mid: 190, treble: 100 } // Aurora
+];
+
+/**
+ * Hand-driven camera: an open palm freezes the shards and pans towards `target`, two hands
+ * zoom and roll the view. Each eases towards its target every simulation step.
+ */
+export interface NeonCamera {
+  offset: { x: number; y: number };
+  target: { x: number; y: number };
+  zoom: number;
+  targetZoom: number;
+  roll: number; // Radians, clockwise
+  targetRoll: number;
+  frozen: boolean;
+}
+
+/**
+ * The Neon shard simulation, shaped like WinterScene (see utils/winterScene.ts): no canvas or
+ * clock of its own, sizes in CSS pixels, times in milliseconds, seeded randomness.
+ */
+export interface NeonScene {
+  particles: ShardPool;
+  camera: NeonCamera;
+  /** Spawns shard snowflakes for one frame of analysis (nothing while frozen). */
+  react: (analysis: AudioData, beat: BeatInfo, time: number, width: number, height: number) => void;
+  /** One fixed simulation step: camera easing, spin and particle physics. */
+  step: (globalEnergy: number) => void;
+  /**
+   * Fades the previous frame by `trailAlpha` and draws the shards, `interpolation` (0-1) of the
+   * way between the last two steps. Frozen shards are drawn where they stopped.
+   */
+  draw: (ctx: DrawingContext, width: number, height: number, trailAlpha: number, interpolation?: number) => void;
+  /**
+   * Spawns a snowflake right away, whatever the music is doing: at `options.at` (CSS px
+   * on screen, through the camera) or somewhere random.
+   */
+  burst: (time: number, width: number, height: number, options?: BurstOptions) => void;
+  /** Pushes the shards near each stroke segment along it, as seen on screen (not while frozen). */
+  wind: (gusts: WindGust[], width: number, height: number) => void;
+  /** Moves on to the next base palette; shards already in the air keep their colors. */
+  cyclePalette: () => void;
+  /** Overlay colors following the shards' hue drift. */
+  getOverlayPalette: (time: number) => OverlayPalette;
+  /** Empties the sky and restarts the show clock the hue drift runs on. */
+  clear: () => void;
+  reseed: (seed: number) => void;
+}
+
+interface Rib {
+  pos: number;
+  length: number;
+  angle: number;
+  subRibs?: number;
+}
+
+interface SnowflakeBlueprint {
+  armLength: number;
+  centerPlateSize: number;
+  ribs: Rib[];
+  tipShape: 'point' | 'fork' | 'star';
+}
+
+// Neon shards are much bigger than Winter sprites, so they get half the budget
+export const createNeonScene = (seed = 0, options: SceneOptions = CANVAS_SCENE): NeonScene => {
+  const random = createRandom(seed);
+  const { density } = options;
+  const particles = createParticlePool(options.maxParticles / 2, SHARD_CHANNELS);
+  const camera: NeonCamera = { offset: { x: 0, y: 0 }, target: { x: 0, y: 0 }, zoom: 1, targetZoom: 1, roll: 0, targetRoll: 0, frozen: false };
+  let lastSpawnTime = -Infinity;
+  let showStart: number | null = null;
+  let paletteIndex = 0;
+
+  const showTime = (time: number) => {
+    if (showStart === null) showStart = time;
+    return time - showStart;
+  };
+
+  const createShard = (detail: Random, i: number, size: number) => {
+    const sides = Math.floor(detail.next() * 3) + 3;
+    particles.channels.sides[i] = sides;
+    for (let k = 0; k < sides; k++) {
+      particles.channels.radii[i * MAX_SHARD_SIDES + k] = size * (0.5 + detail.next() * 0.5);
+    }
+  };
+
+  // `pan` (-1 to 1) places the snowflake towards the side its band is panned to
+  const spawnNeonSnowflake = (type: FrequencyBand, intensity: number, time: number, width: number, height: number, at?: { x: number; y: number }, pan = 0) => {
+    const config = getVisualConfig();
+
+    const spreadX = width * 0.7;
+    const spreadY = height * 0.5;
+
+    const startX = at ? at.x : pan * spreadX / 2 + (random.next() - 0.5) * spreadX * (1 - Math.abs(pan));
+    const startY = at ? at.y : (random.next() - 0.5) * spreadY;
+    const startZ = at ? 0 : (random.next() - 0.5) * 400; // Placed snowflakes sit at scale 1, right under the finger
+
+    const baseHue = (NEON_PALETTES[paletteIndex][type] + showTime(time) * HUE_DRIFT) % 360;
+
+    // --- SIZE VARIATION LOGIC ---
+    // Range 0.3x to 2.5x
+    const randomScale = 0.3 + random.next() * 2.2;
+    const scale = randomScale * (0.8 + intensity * 0.4);
+
+    const speedBase = config.energyMultiplier * (0.5 + intensity * 0.5);
+
+    // --- BLUEPRINT ---
+    const blueprint: SnowflakeBlueprint = {
+      armLength: 1.0,
+      centerPlateSize: random.next() < 0.3 ? 0.15 + random.next() * 0.1 : 0,
+      ribs: [],
+      tipShape: random.next() > 0.5 ? 'point' : 'fork'
+    };
+
+    const numRibs = Math.floor(random.next() * 4) + 2;
+    for (let r = 0; r < numRibs; r++) {
+      const pos = 0.2 + (r / numRibs) * 0.6;
+      const maxLen = (1 - pos) * 0.6;
+      const len = maxLen * (0.4 + random.next() * 0.6);
+      blueprint.ribs.push({
+        pos, length: len, angle: Math.PI / 3, subRibs: len > 0.3 ? Math.floor(random.next() * 3) : 0
+      });
+    }
+
+    // Thinning and per-shard looks scale with density and stop when the pool fills: they come
+    // from this snowflake's own stream, so the main one stays in step (see winterScene.ts)
+    const detail = forkRandom(random);
+    if (particles.count >= particles.capacity) return;
+
+    const arms = 6;
+    const particleBudgetBase = config.minParticlesPerFirework + (config.maxParticlesPerFirework - config.minParticlesPerFirework) * intensity;
+    const totalParticles = particleBudgetBase * Math.sqrt(scale) * density;
+
+    const points: {x: number, y: number}[] = [];
+
+    const addLine = (x1: number, y1: number, x2: number, y2: number) => {
+      const dist = Math.hypot(x2 - x1, y2 - y1);
+      const count = Math.max(2, Math.floor(dist * 60 * density));
+      for(let i=0; i<=count; i++) {
+        const t = i/count;
+        points.push({
+          x: x1 + (x2 - x1) * t,
+          y: y1 + (y2 - y1) * t
+        });
+      }
+    };
+
+    if (blueprint.centerPlateSize > 0) {
+      const s = blueprint.centerPlateSize;
+      const plateAngle = Math.PI / 6;
+      addLine(s * Math.cos(plateAngle), s * Math.sin(plateAngle), s * Math.cos(-plateAngle), s * Math.sin(-plateAngle));
+    }
+
+    addLine(0, 0, blueprint.armLength, 0);
+
+    blueprint.ribs.forEach(rib => {
+      const rx = rib.pos + rib.length * Math.cos(rib.angle);
+      const ry = rib.length * Math.sin(rib.angle);
+      addLine(rib.pos, 0, rx, ry);
+
+      if (rib.subRibs) {
+        for(let sr=1; sr<=rib.subRibs; sr++) {
+          const t = sr / (rib.subRibs + 1);
+          const sx = rib.pos + (rx - rib.pos) * t;
+          const sy = 0 + (ry - 0) * t;
+          addLine(sx, sy, sx + rib.length*0.3, sy);
+        }
+      }
+
+      const lx = rib.pos + rib.length * Math.cos(-rib.angle);
+      const ly = rib.length * Math.sin(-rib.angle);
+      addLine(rib.pos, 0, lx, ly);
+
+      if (rib.subRibs) {
+        for(let sr=1; sr<=rib.subRibs; sr++) {
+          const t = sr / (rib.subRibs + 1);
+          const sx = rib.pos + (lx - rib.pos) * t;
+          const sy = 0 + (ly - 0) * t;
+          addLine(sx, sy, sx + rib.length*0.3, sy);
+        }
+      }
+    });
+
+    const totalPointsNeeded = points.length * arms;
+    const skipRatio = totalPointsNeeded > totalParticles ? 1 - (totalParticles / totalPointsNeeded) : 0;
+
+    for (let i = 0; i < arms; i++) {
+      const armRotation = (i / arms) * Math.PI * 2;
+      const cosA = Math.cos(armRotation);
+      const sinA = Math.sin(armRotation);
+
+      for (const pt of points) {
+        if (skipRatio > 0 && detail.next() < skipRatio) continue;
+
+        // Apply Scale here
+        const fx = (pt.x * cosA - pt.y * sinA) * scale;
+        const fy = (pt.x * sinA + pt.y * cosA) * scale;
+        const fz = 0;
+
+        const vx = fx * speedBase;
+        const vy = fy * speedBase;
+        const vz = fz * speedBase;
+
+        const size = (detail.next() * 4 + 1) * scale / Math.sqrt(density); // Scale shard size
+
+        const p = particles.add(startX, startY, startZ, vx, vy, vz);
+        if (p < 0) return;
+        particles.size[p] = size;
+        particles.channels.hue[p] = (baseHue + detail.next() * 40 - 20) % 360;
+        particles.decayRate[p] = config.fadeSpeedBase + (detail.next() * config.fadeSpeedVar);
+        particles.shimmerOffset[p] = detail.next() * Math.PI * 2;
+        createShard(detail, p, size);
+        particles.channels.spinSpeed[p] = (detail.next() - 0.5) * 0.2;
+        particles.channels.angle[p] = particles.channels.prevAngle[p] = detail.next() * Math.PI * 2;
+      }
+    }
+  };
+
+  const react = (analysis: AudioData, beat: BeatInfo, time: number, width: number, height: number) => {
+    showTime(time);
+    if (camera.frozen) return;
+
+    const timeSinceLast = time - lastSpawnTime;
+    const onset = beat.onsets[0];
+    const sectionBoost = beat.section ? SECTION_INTENSITY[beat.section] : 1;
+
+    // Beat-map beats come from the unprocessed track, see winterScene.ts
+    const isAudible = (candidate: FrequencyBand) => getBandEnergy(analysis, candidate) >= SPAWN_ENERGY_FLOOR;
+
+    let band: FrequencyBand | null = null;
+    let intensity = 0;
+    if (onset) {
+      if (isAudible(onset.band)) {
+        band = onset.band;
+        intensity = Math.min((getBandEnergy(analysis, onset.band) / 255) * (0.85 + onset.strength * 0.3) * sectionBoost, 1);
+      }
+    } else if (beat.isBeat && timeSinceLast > 150) {
+      const dominant = getDominantBand(analysis);
+      if (isAudible(dominant)) {
+        band = dominant;
+        intensity = Math.min(0.5 * sectionBoost, 1);
+      }
+    } else if (beat.bpm === 0 && timeSinceLast > 600 && analysis.energy > 10) {
+      band = getDominantBand(analysis);
+      intensity = 0.4;
+    }
+
+    if (band) {
+      lastSpawnTime = time;
+      spawnNeonSnowflake(band, intensity, time, width, height, undefined, analysis.stereo?.balance[band]);
+    }
+  };
+
+  const step = (globalEnergy: number) => {
+    camera.offset.x += (camera.target.x - camera.offset.x) * 0.1;
+    camera.offset.y += (camera.target.y - camera.offset.y) * 0.1;
+    camera.zoom += (camera.targetZoom - camera.zoom) * 0.1;
+    camera.roll += (camera.targetRoll - camera.roll) * 0.1;
+    if (camera.frozen) return;
+
+    const { angle, prevAngle, spinSpeed } = particles.channels;
+    for (let i = 0; i < particles.count; i++) {
+      prevAngle[i] = angle[i];
+      angle[i] += spinSpeed[i];
+    }
+    stepParticles(particles, globalEnergy);
+  };
+
+  const draw = (ctx: DrawingContext, width: number, height: number, trailAlpha: number, interpolation = 1) => {
+    const t = camera.frozen ? 1 : interpolation;
+
+    ctx.fillStyle = `rgba(10, 5, 20, ${trailAlpha})`;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.save();
+    ctx.translate(width / 2 + camera.offset.x, height / 2 + camera.offset.y);
+    ctx.rotate(camera.roll);
+    ctx.scale(camera.zoom, camera.zoom);
+
+    ctx.globalCompositeOperation = 'screen';
+
+    const { x, y, z, prevX, prevY, prevZ, life } = particles;
+    const { hue, angle, prevAngle, sides, radii } = particles.channels;
+    for (let i = 0; i < particles.count; i++) {
+      const pz = prevZ[i] + (z[i] - prevZ[i]) * t;
+      const scale = 800 / (800 + pz);
+      const alpha = life[i] * scale;
+      if (scale <= 0) continue;
+
+      ctx.save();
+      ctx.translate(
+        (prevX[i] + (x[i] - prevX[i]) * t) * scale,
+        (prevY[i] + (y[i] - prevY[i]) * t) * scale
+      );
+      ctx.scale(scale, scale);
+      ctx.rotate(prevAngle[i] + (angle[i] - prevAngle[i]) * t);
+
+      // Per-frame glow flicker stays off the show PRNG, it would tie the sequence to the frame rate
+      const flicker = Math.random() > 0.9 ? 1.5 : 1;
+      ctx.fillStyle = `hsla(${hue[i]}, 100%, 60%, ${alpha})`;
+      ctx.shadowBlur = 10 * scale * flicker;
+      ctx.shadowColor = `hsla(${hue[i]}, 100%, 50%, 1)`;
+
+      ctx.beginPath();
+      for (let k = 0; k < sides[i]; k++) {
+        const vertexAngle = (k / sides[i]) * Math.PI * 2;
+        const r = radii[i * MAX_SHARD_SIDES + k];
+        if (k === 0) ctx.moveTo(Math.cos(vertexAngle) * r, Math.sin(vertexAngle) * r);
+        else ctx.lineTo(Math.cos(vertexAngle) * r, Math.sin(vertexAngle) * r);
+      }
+      ctx.closePath();
+      ctx.fill();
+      ctx.restore();
+    }
+
+    ctx.restore();
+  };
+
+  const getOverlayPalette = (time: number): OverlayPalette => {
+    const hueShift = showTime(time) * HUE_DRIFT;
+    const { bass, mid, treble } = NEON_PALETTES[paletteIndex];
+    return {
+      ring: hslToRgbString((mid + hueShift) % 360, 1, 0.6),
+      haloInner: hslToRgbString((bass + hueShift) % 360, 1, 0.6),
+      haloOuter: hslToRgbString((treble + hueShift) % 360, 1, 0.6),
+      waveform: hslToRgbString((treble + hueShift) % 360, 1, 0.7)
+    };
+  };
+
+  const burst = (time: number, width: number, height: number, { at, band, intensity = 1 }: BurstOptions = {}) => {
+    if (camera.frozen) return;
+    const bands: FrequencyBand[] = ['bass', 'mid', 'treble'];
+    let world: { x: number; y: number } | undefined;
+    if (at) {
+      // Screen to scene: undo the camera's pan, roll and zoom
+      const dx = at.x - width / 2 - camera.offset.x;
+      const dy = at.y - height / 2 - camera.offset.y;
+      const cos = Math.cos(-camera.roll);
+      const sin = Math.sin(-camera.roll);
+      world = { x: (dx * cos - dy * sin) / camera.zoom, y: (dx * sin + dy * cos) / camera.zoom };
+    }
+    spawnNeonSnowflake(band ?? bands[Math.floor(random.next() * bands.length)], intensity, time, width, height, world);
+  };
+
+  const wind = (gusts: WindGust[], width: number, height: number) => {
+    if (camera.frozen) return;
+    const { x, y, z, vx, vy } = particles;
+    const cos = Math.cos(camera.roll);
+    const sin = Math.sin(camera.roll);
+    for (let i = 0; i < particles.count; i++) {
+      // Scene to screen, as in draw: perspective, then the camera's zoom, roll and pan
+      const scale = (800 / (800 + z[i])) * camera.zoom;
+      if (scale <= 0) continue;
+      const sx = x[i] * scale;
+      const sy = y[i] * scale;
+      const screenX = sx * cos - sy * sin + width / 2 + camera.offset.x;
+      const screenY = sx * sin + sy * cos + height / 2 + camera.offset.y;
+
+      let pushX = 0;
+      let pushY = 0;
+      for (const gust of gusts) {
+        const falloff = 1 - Math.hypot(screenX - gust.x, screenY - gust.y) / WIND_RADIUS;
+        if (falloff <= 0) continue;
+        pushX += gust.dx * falloff * WIND_STRENGTH;
+        pushY += gust.dy * falloff * WIND_STRENGTH;
+      }
+      if (pushX === 0 && pushY === 0) continue;
+      vx[i] += (pushX * cos + pushY * sin) / scale;
+      vy[i] += (-pushX * sin + pushY * cos) / scale;
+    }
+  };
+
+  return {
+    particles,
+    camera,
+    react,
+    step,
+    draw,
+    burst,
+    wind,
+    cyclePalette: () => {
+      paletteIndex = (paletteIndex + 1) % NEON_PALETTES.length;
+    },
+    getOverlayPalette,
+    clear: () => {
+      particles.clear();
+      lastSpawnTime = -Infinity;
+      showStart = null;
+    },
+    reseed: (newSeed: number) => random.reset(newSeed)
+  };
+};
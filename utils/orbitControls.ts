@@ -0,0 +1,133 @@
+import {
+  ORBIT_AUTO_ENERGY_SPEED,
+  ORBIT_AUTO_SPEED,
+  ORBIT_DRAG_SPEED,
+  ORBIT_FOV_MAX,
+  ORBIT_FOV_MIN,
+  ORBIT_INERTIA_HALF_LIFE,
+  ORBIT_MAX_SPIN,
+  ORBIT_PITCH_LIMIT,
+  ORBIT_WHEEL_ZOOM
+} from '../constants';
+
+export interface OrbitView {
+  rotation: { x: number; y: number }; // Pitch and yaw in radians
+  fov: number; // Perspective distance in px, smaller is a wider, closer view
+}
+
+/**
+ * Pointer-driven orbit camera for the Winter scene: drag (mouse or one finger) to rotate, with
+ * inertia after letting go; wheel or two-finger pinch to dolly. With `autoOrbit` on, the view
+ * also turns slowly on its own, faster with the music's energy.
+ * Positions are in CSS px, times in ms.
+ */
+export interface OrbitControls {
+  pointerDown: (id: number, x: number, y: number, time: number) => void;
+  pointerMove: (id: number, x: number, y: number, time: number) => void;
+  pointerUp: (id: number) => void;
+  wheel: (deltaY: number) => void;
+  /** Advances inertia and auto-orbit to `time`; `energy` is the analysis' 0-255 energy. */
+  update: (time: number, energy: number, autoOrbit: boolean) => OrbitView;
+  /** Back to the straight-on view at the default distance. */
+  reset: () => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const createOrbitControls = (defaultFov: number): OrbitControls => {
+  const pointers = new Map<number, { x: number; y: number }>();
+  const view: OrbitView = { rotation: { x: 0, y: 0 }, fov: defaultFov };
+  const velocity = { x: 0, y: 0 }; // Radians per ms, kept from the last drag
+  let lastMoveTime = 0;
+  let lastUpdateTime: number | null = null;
+  let pinchDistance: number | null = null;
+
+  const rotate = (dx: number, dy: number) => {
+    view.rotation.y += dx;
+    view.rotation.x = clamp(view.rotation.x + dy, -ORBIT_PITCH_LIMIT, ORBIT_PITCH_LIMIT);
+  };
+
+  const dolly = (factor: number) => {
+    view.fov = clamp(view.fov * factor, ORBIT_FOV_MIN, ORBIT_FOV_MAX);
+  };
+
+  const getPinchDistance = () => {
+    const [a, b] = [...pointers.values()];
+    return Math.hypot(a.x - b.x, a.y - b.y) || 1;
+  };
+
+  const pointerDown = (id: number, x: number, y: number, time: number) => {
+    pointers.set(id, { x, y });
+    velocity.x = velocity.y = 0;
+    lastMoveTime = time;
+    pinchDistance = pointers.size === 2 ? getPinchDistance() : null;
+  };
+
+  const pointerMove = (id: number, x: number, y: number, time: number) => {
+    const previous = pointers.get(id);
+    if (!previous) return;
+    pointers.set(id, { x, y });
+
+    if (pointers.size >= 2) {
+      if (pinchDistance !== null) {
+        const distance = getPinchDistance();
+        // Spreading the fingers brings the scene closer
+        dolly(pinchDistance / distance);
+        pinchDistance = distance;
+      }
+      return;
+    }
+
+    const dx = (x - previous.x) * ORBIT_DRAG_SPEED;
+    const dy = (y - previous.y) * ORBIT_DRAG_SPEED;
+    rotate(dx, -dy);
+    const elapsed = Math.max(1, time - lastMoveTime);
+    velocity.x = clamp(dx / elapsed, -ORBIT_MAX_SPIN, ORBIT_MAX_SPIN);
+    velocity.y = clamp(-dy / elapsed, -ORBIT_MAX_SPIN, ORBIT_MAX_SPIN);
+    lastMoveTime = time;
+  };
+
+  const pointerUp = (id: number) => {
+    pointers.delete(id);
+    pinchDistance = pointers.size === 2 ? getPinchDistance() : null;
+    // Lifting the second finger of a pinch shouldn't fling the view
+    if (pointers.size > 0) velocity.x = velocity.y = 0;
+  };
+
+  const update = (time: number, energy: number, autoOrbit: boolean): OrbitView => {
+    const elapsed = lastUpdateTime === null ? 0 : Math.min(100, time - lastUpdateTime);
+    lastUpdateTime = time;
+    if (pointers.size > 0) return view;
+
+    // A drag that stopped before release doesn't coast
+    if (time - lastMoveTime > 100) velocity.x = velocity.y = 0;
+    if (velocity.x !== 0 || velocity.y !== 0) {
+      rotate(velocity.x * elapsed, velocity.y * elapsed);
+      const decay = Math.pow(0.5, elapsed / ORBIT_INERTIA_HALF_LIFE);
+      velocity.x *= decay;
+      velocity.y *= decay;
+      if (Math.hypot(velocity.x, velocity.y) < 1e-6) velocity.x = velocity.y = 0;
+      lastMoveTime = time;
+    }
+    if (autoOrbit) {
+      const speed = ORBIT_AUTO_SPEED + ORBIT_AUTO_ENERGY_SPEED * Math.min(1, energy / 255);
+      rotate((speed * elapsed) / 1000, 0);
+    }
+    return view;
+  };
+
+  return {
+    pointerDown,
+    pointerMove,
+    pointerUp,
+    wheel: (deltaY: number) => dolly(Math.exp(deltaY * ORBIT_WHEEL_ZOOM)),
+    update,
+    reset: () => {
+      view.rotation.x = 0;
+      // Nearest straight-on yaw, so the camera doesn't unwind every turn it made
+      view.rotation.y = Math.round(view.rotation.y / (Math.PI * 2)) * Math.PI * 2;
+      view.fov = defaultFov;
+      velocity.x = velocity.y = 0;
+    }
+  };
+};
@@ -0,0 +1,172 @@
+import { DrawingContext, OverlaySettings } from '../types';
+import {
+  OVERLAY_RING_RADIUS,
+  OVERLAY_RING_AMPLITUDE,
+  OVERLAY_HALO_BARS,
+  OVERLAY_HALO_LENGTH,
+  OVERLAY_WAVEFORM_HEIGHT
+} from '../constants';
+
+/** Colors as "r, g, b" strings, same format as the palette constants. */
+export interface OverlayPalette {
+  ring: string;
+  haloInner: string;
+  haloOuter: string;
+  waveform: string;
+}
+
+export const hslToRgbString = (h: number, s: number, l: number) => {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return `${f(0)}, ${f(8)}, ${f(4)}`;
+};
+
+const lerpRgb = (from: string, to: string, t: number) => {
+  const a = from.split(',').map(Number);
+  const b = to.split(',').map(Number);
+  return a.map((v, i) => Math.round(v + (b[i] - v) * t)).join(', ');
+};
+
+/**
+ * Oscilloscope bent into a circle around the screen center.
+ */
+const drawOscilloscopeRing = (
+  ctx: DrawingContext,
+  timeData: Uint8Array,
+  cx: number,
+  cy: number,
+  radius: number,
+  color: string
+) => {
+  const points = 256;
+  const step = timeData.length / points;
+  const amplitude = radius * OVERLAY_RING_AMPLITUDE;
+
+  ctx.beginPath();
+  for (let i = 0; i <= points; i++) {
+    const v = (timeData[Math.floor((i % points) * step)] - 128) / 128;
+    const angle = (i / points) * Math.PI * 2 - Math.PI / 2;
+    const r = radius + v * amplitude;
+    const x = cx + Math.cos(angle) * r;
+    const y = cy + Math.sin(angle) * r;
+    if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+  }
+  ctx.strokeStyle = `rgba(${color}, 0.6)`;
+  ctx.lineWidth = 1.5;
+  ctx.shadowBlur = 8;
+  ctx.shadowColor = `rgba(${color}, 0.9)`;
+  ctx.stroke();
+};
+
+/**
+ * Spectrum bars radiating out of the ring, log-spaced and mirrored so low end sits at the top.
+ */
+const drawSpectrumHalo = (
+  ctx: DrawingContext,
+  frequencyData: Uint8Array,
+  cx: number,
+  cy: number,
+  radius: number,
+  inner: string,
+  outer: string
+) => {
+  const half = OVERLAY_HALO_BARS / 2;
+  const bins = frequencyData.length;
+  const inset = radius * (1 + OVERLAY_RING_AMPLITUDE * 0.5);
+  const maxLength = radius * OVERLAY_HALO_LENGTH;
+
+  ctx.lineWidth = 2;
+  ctx.shadowBlur = 0;
+  for (let i = 0; i < half; i++) {
+    // Log mapping so the bass isn't squashed into a couple of bars
+    const bin = Math.min(bins - 1, Math.floor(Math.pow(bins, i / half)));
+    const v = frequencyData[bin] / 255;
+    if (v <= 0.02) continue;
+
+    const length = Math.pow(v, 1.5) * maxLength;
+    const color = lerpRgb(inner, outer, i / half);
+    ctx.strokeStyle = `rgba(${color}, ${0.25 + v * 0.5})`;
+
+    for (const side of [1, -1]) {
+      const angle = -Math.PI / 2 + side * ((i + 0.5) / half) * Math.PI;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      ctx.beginPath();
+      ctx.moveTo(cx + cos * inset, cy + sin * inset);
+      ctx.lineTo(cx + cos * (inset + length), cy + sin * (inset + length));
+      ctx.stroke();
+    }
+  }
+};
+
+/**
+ * Soft waveform along the bottom edge with a frosted fade below it.
+ */
+const drawFrostedWaveform = (
+  ctx: DrawingContext,
+  timeData: Uint8Array,
+  width: number,
+  height: number,
+  color: string
+) => {
+  const baseline = height - OVERLAY_WAVEFORM_HEIGHT * 1.5;
+  const points = Math.min(timeData.length, 512);
+  const step = timeData.length / points;
+
+  ctx.beginPath();
+  ctx.moveTo(0, height);
+  for (let i = 0; i < points; i++) {
+    const v = (timeData[Math.floor(i * step)] - 128) / 128;
+    ctx.lineTo((i / (points - 1)) * width, baseline + v * OVERLAY_WAVEFORM_HEIGHT);
+  }
+  ctx.lineTo(width, height);
+  ctx.closePath();
+
+  const gradient = ctx.createLinearGradient(0, baseline - OVERLAY_WAVEFORM_HEIGHT, 0, height);
+  gradient.addColorStop(0, `rgba(${color}, 0.22)`);
+  gradient.addColorStop(1, `rgba(${color}, 0)`);
+  ctx.fillStyle = gradient;
+  ctx.shadowBlur = 0;
+  ctx.fill();
+
+  ctx.beginPath();
+  for (let i = 0; i < points; i++) {
+    const v = (timeData[Math.floor(i * step)] - 128) / 128;
+    const x = (i / (points - 1)) * width;
+    const y = baseline + v * OVERLAY_WAVEFORM_HEIGHT;
+    if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+  }
+  ctx.strokeStyle = `rgba(${color}, 0.55)`;
+  ctx.lineWidth = 1;
+  ctx.shadowBlur = 6;
+  ctx.shadowColor = `rgba(${color}, 0.8)`;
+  ctx.stroke();
+};
+
+/**
+ * Draws the enabled overlay layers in screen space (call outside any camera transform).
+ */
+export const drawOverlays = (
+  ctx: DrawingContext,
+  settings: OverlaySettings,
+  palette: OverlayPalette,
+  frequencyData: Uint8Array,
+  timeData: Uint8Array,
+  width: number,
+  height: number
+) => {
+  if (!settings.oscilloscope && !settings.spectrumHalo && !settings.waveform) return;
+
+  const cx = width / 2;
+  const cy = height / 2;
+  const radius = Math.min(width, height) * OVERLAY_RING_RADIUS;
+
+  ctx.save();
+  if (settings.spectrumHalo) drawSpectrumHalo(ctx, frequencyData, cx, cy, radius, palette.haloInner, palette.haloOuter);
+  if (settings.oscilloscope) drawOscilloscopeRing(ctx, timeData, cx, cy, radius, palette.ring);
+  if (settings.waveform) drawFrostedWaveform(ctx, timeData, width, height, palette.waveform);
+  ctx.restore();
+};
@@ -0,0 +1,128 @@
+import { getVisualConfig } from './visualConfig';
+import {
+  CANVAS_MAX_PARTICLES,
+  WEBGL_MAX_PARTICLES,
+  WEBGL_PARTICLE_DENSITY
+} from '../constants';
+
+/**
+ * Preallocated struct-of-arrays particle storage: one typed array per field, particles
+ * packed at [0, count). Removal swaps the last particle into the hole, so order isn't stable
+ * and nothing is allocated after creation.
+ *
+ * Scene-specific fields live in `channels`, each `stride` floats per particle.
+ */
+export interface ParticlePool<C extends string = never> {
+  readonly capacity: number;
+  count: number;
+  x: Float32Array;
+  y: Float32Array;
+  z: Float32Array;
+  // Position before the last step, drawn positions are interpolated from here
+  prevX: Float32Array;
+  prevY: Float32Array;
+  prevZ: Float32Array;
+  vx: Float32Array;
+  vy: Float32Array;
+  vz: Float32Array;
+  life: Float32Array; // 0-1, also the particle's opacity
+  decayRate: Float32Array; // Life lost per step
+  size: Float32Array;
+  shimmerOffset: Float32Array;
+  channels: Record<C, Float32Array>;
+  /** Appends a particle with full life. Returns its index, or -1 when full. */
+  add: (x: number, y: number, z: number, vx: number, vy: number, vz: number) => number;
+  /** Swap-removes particle i: the last particle moves into its slot. */
+  remove: (i: number) => void;
+  clear: () => void;
+}
+
+/** Particle budget of a scene, which depends on the backend drawing it. */
+export interface SceneOptions {
+  maxParticles: number;
+  density: number; // Multiplies the particles per snowflake (and shrinks them to match)
+}
+
+export const CANVAS_SCENE: SceneOptions = { maxParticles: CANVAS_MAX_PARTICLES, density: 1 };
+export const WEBGL_SCENE: SceneOptions = { maxParticles: WEBGL_MAX_PARTICLES, density: WEBGL_PARTICLE_DENSITY };
+
+// Winter: "r, g, b" palette color as 0-255 floats
+export const SPRITE_CHANNELS = { color: 3 };
+export type SpritePool = ParticlePool<keyof typeof SPRITE_CHANNELS>;
+
+// Neon: polygon shards with up to MAX_SHARD_SIDES vertices, vertex i at angle i / sides * 2PI
+export const MAX_SHARD_SIDES = 5;
+export const SHARD_CHANNELS = { hue: 1, angle: 1, prevAngle: 1, spinSpeed: 1, sides: 1, radii: MAX_SHARD_SIDES };
+export type ShardPool = ParticlePool<keyof typeof SHARD_CHANNELS>;
+
+export const createParticlePool = <C extends string>(capacity: number, channelStrides: Record<C, number>): ParticlePool<C> => {
+  const field = () => new Float32Array(capacity);
+  const core = {
+    x: field(), y: field(), z: field(),
+    prevX: field(), prevY: field(), prevZ: field(),
+    vx: field(), vy: field(), vz: field(),
+    life: field(), decayRate: field(), size: field(), shimmerOffset: field()
+  };
+  const coreFields = Object.values(core);
+  const strides = Object.entries(channelStrides) as [C, number][];
+  const channels = {} as Record<C, Float32Array>;
+  for (const [name, stride] of strides) channels[name] = new Float32Array(capacity * stride);
+
+  const pool: ParticlePool<C> = {
+    capacity,
+    count: 0,
+    ...core,
+    channels,
+    add: (x, y, z, vx, vy, vz) => {
+      if (pool.count >= capacity) return -1;
+      const i = pool.count++;
+      core.x[i] = core.prevX[i] = x;
+      core.y[i] = core.prevY[i] = y;
+      core.z[i] = core.prevZ[i] = z;
+      core.vx[i] = vx;
+      core.vy[i] = vy;
+      core.vz[i] = vz;
+      core.life[i] = 1;
+      return i;
+    },
+    remove: (i) => {
+      const last = --pool.count;
+      if (i === last) return;
+      for (const values of coreFields) values[i] = values[last];
+      for (const [name, stride] of strides) {
+        channels[name].copyWithin(i * stride, last * stride, (last + 1) * stride);
+      }
+    },
+    clear: () => { pool.count = 0; }
+  };
+  return pool;
+};
+
+/**
+ * Advances every particle by one fixed simulation step (SIMULATION_FRAME_RATE per second, the
+ * rate gravity, friction and the fade speeds are tuned for) and removes the ones that died.
+ * Louder music burns particles out faster.
+ */
+export const stepParticles = <C extends string>(pool: ParticlePool<C>, globalEnergy: number) => {
+  const { x, y, z, prevX, prevY, prevZ, vx, vy, vz, life, decayRate } = pool;
+  const { gravity, friction, fadeSpeedVar } = getVisualConfig();
+  const energyDecay = globalEnergy > 0 ? (globalEnergy / 255) * fadeSpeedVar : 0;
+
+  // Backwards, so the particle swapped into a removed slot has already been stepped
+  for (let i = pool.count - 1; i >= 0; i--) {
+    prevX[i] = x[i];
+    prevY[i] = y[i];
+    prevZ[i] = z[i];
+
+    x[i] += vx[i];
+    y[i] += vy[i];
+    z[i] += vz[i];
+    vy[i] += gravity;
+    vx[i] *= friction;
+    vy[i] *= friction;
+    vz[i] *= friction;
+
+    life[i] -= decayRate[i] + energyDecay;
+    if (life[i] <= 0) pool.remove(i);
+  }
+};
@@ -0,0 +1,183 @@
+import { STREAMING_MIN_BYTES } from '../constants';
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface PlaylistTrack {
+  id: string;
+  source: File | string; // A local file, or a URL
+  name: string;
+  stream: boolean; // Played through a media element instead of being decoded up front
+}
+
+export interface DecodeCache {
+  get: (track: PlaylistTrack) => Promise<AudioBuffer>;
+  prefetch: (track: PlaylistTrack) => void;
+  retain: (ids: string[]) => void;
+}
+
+let trackIdCounter = 0;
+
+export const createTracks = (files: File[]): PlaylistTrack[] => {
+  return files
+    .filter(f => f.type.startsWith('audio/') || /\.(mp3|wav|ogg|oga|flac|m4a|aac|opus|webm)$/i.test(f.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+    .map(file => ({
+      id: `track-${Date.now()}-${trackIdCounter++}`,
+      source: file,
+      name: file.name.replace(/\.[^/.]+$/, ''),
+      // Decoding a long mix takes seconds and holds hundreds of MB, streaming starts right away
+      stream: file.size >= STREAMING_MIN_BYTES
+    }));
+};
+
+/**
+ * A track for a typed-in URL, always streamed. Relative URLs resolve against the page, so
+ * `/media/mix.mp3` works when the app is served next to the music. Returns null for anything
+ * that isn't an http(s) or blob URL.
+ */
+export const createUrlTrack = (text: string): PlaylistTrack | null => {
+  let url: URL;
+  try {
+    url = new URL(text.trim(), window.location.href);
+  } catch {
+    return null;
+  }
+  if (!['http:', 'https:', 'blob:'].includes(url.protocol)) return null;
+
+  const fileName = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+  return {
+    id: `track-${Date.now()}-${trackIdCounter++}`,
+    source: url.href,
+    name: fileName.replace(/\.[^/.]+$/, '') || url.host,
+    stream: true
+  };
+};
+
+export const getTrackSourceName = (track: PlaylistTrack) =>
+  typeof track.source === 'string' ? track.source : track.source.name;
+
+/**
+ * Collects files from a drop event, walking into dropped folders.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((e): e is FileSystemEntry => !!e);
+
+  // Browsers without the entries API only give us the flat file list
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  const walk = async (entry: FileSystemEntry): Promise<void> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      files.push(file);
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns results in batches until it yields an empty array
+      let batch: FileSystemEntry[];
+      do {
+        batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        for (const child of batch) await walk(child);
+      } while (batch.length > 0);
+    }
+  };
+
+  for (const entry of entries) await walk(entry);
+  return files;
+};
+
+export const moveTrack = (tracks: PlaylistTrack[], from: number, to: number): PlaylistTrack[] => {
+  const next = tracks.slice();
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+const shuffleIds = (ids: string[]) => {
+  const result = ids.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Builds the order tracks are played in.
+ * Queue order when shuffle is off; otherwise the previous shuffle is kept stable
+ * (removed tracks dropped, new tracks shuffled in after it) with the current track first.
+ */
+export const buildPlayOrder = (
+  tracks: PlaylistTrack[],
+  shuffle: boolean,
+  currentId: string | null,
+  previousOrder: string[] = []
+): string[] => {
+  const ids = tracks.map(t => t.id);
+  if (!shuffle) return ids;
+
+  const idSet = new Set(ids);
+  const kept = previousOrder.filter(id => idSet.has(id));
+  const keptSet = new Set(kept);
+  const order = kept.length > 0 ? kept.concat(shuffleIds(ids.filter(id => !keptSet.has(id)))) : shuffleIds(ids);
+
+  if (currentId && previousOrder.length === 0) {
+    return [currentId, ...order.filter(id => id !== currentId)];
+  }
+  return order;
+};
+
+/**
+ * Returns the id of the track before/after `currentId`, honouring repeat mode.
+ * Repeat 'one' only affects auto-advance, so callers pass 'all' for manual skips.
+ */
+export const getAdjacentTrackId = (
+  order: string[],
+  currentId: string | null,
+  direction: 1 | -1,
+  repeat: RepeatMode
+): string | null => {
+  if (order.length === 0) return null;
+  if (currentId === null) return order[0];
+  if (repeat === 'one') return currentId;
+
+  const index = order.indexOf(currentId);
+  const next = index + direction;
+  if (next >= 0 && next < order.length) return order[next];
+  if (repeat === 'all') return order[(next + order.length) % order.length];
+  return null;
+};
+
+/**
+ * Decodes tracks on demand and keeps the results around so the upcoming track
+ * can be decoded ahead of time and started without a stall.
+ */
+export const createDecodeCache = (ctx: BaseAudioContext): DecodeCache => {
+  const cache = new Map<string, Promise<AudioBuffer>>();
+
+  const get = (track: PlaylistTrack) => {
+    let pending = cache.get(track.id);
+    if (!pending) {
+      const { source } = track;
+      pending = typeof source === 'string'
+        ? Promise.reject(new Error('URL tracks are streamed, not decoded'))
+        : source.arrayBuffer().then(data => ctx.decodeAudioData(data));
+      // Don't cache failures, a later retry should decode again
+      pending.catch(() => cache.delete(track.id));
+      cache.set(track.id, pending);
+    }
+    return pending;
+  };
+
+  return {
+    get,
+    prefetch: (track) => { get(track).catch(() => {}); },
+    retain: (ids) => {
+      const keep = new Set(ids);
+      for (const id of Array.from(cache.keys())) {
+        if (!keep.has(id)) cache.delete(id);
+      }
+    }
+  };
+};
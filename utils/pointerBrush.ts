@@ -0,0 +1,78 @@
+import { AudioData, BurstOptions, WindGust } from '../types';
+import { getDominantBand } from './audioUtils';
+import { POINTER_MIN_TAP_INTENSITY, POINTER_TAP_MAX_MOVE, POINTER_TAP_MAX_MS } from '../constants';
+
+/**
+ * Turns pointer input on the scene into taps (spawn a snowflake there) and wind strokes
+ * (drags, which push nearby particles along). Every pointer is tracked on its own, so several
+ * fingers can stroke or tap at once. Positions are in CSS px, times in ms.
+ */
+export interface PointerBrush {
+  pointerDown: (id: number, x: number, y: number, time: number) => void;
+  pointerMove: (id: number, x: number, y: number) => void;
+  /** Returns where the pointer was if this press was a tap, otherwise null. */
+  pointerUp: (id: number, time: number) => { x: number; y: number } | null;
+  /** The browser took the pointer over (scrolling, palm rejection): neither a tap nor more stroke. */
+  pointerCancel: (id: number) => void;
+  /** Stroke segments since the last call, for one frame snapshot. */
+  takeGusts: () => WindGust[];
+}
+
+/** A tap's snowflake: the dominant band of what's playing, as strong as the music is loud. */
+export const getTapBurst = (at: { x: number; y: number }, analysis: AudioData | null): BurstOptions => ({
+  at,
+  band: analysis ? getDominantBand(analysis) : undefined,
+  intensity: Math.max(POINTER_MIN_TAP_INTENSITY, analysis ? Math.min(1, analysis.energy / 255) : 0)
+});
+
+interface TrackedPointer {
+  startX: number;
+  startY: number;
+  startTime: number;
+  x: number;
+  y: number;
+  stroke: boolean; // Moved too far to be a tap
+}
+
+export const createPointerBrush = (): PointerBrush => {
+  const pointers = new Map<number, TrackedPointer>();
+  let gusts: WindGust[] = [];
+
+  const pointerDown = (id: number, x: number, y: number, time: number) => {
+    pointers.set(id, { startX: x, startY: y, startTime: time, x, y, stroke: false });
+  };
+
+  const pointerMove = (id: number, x: number, y: number) => {
+    const pointer = pointers.get(id);
+    if (!pointer) return;
+    if (!pointer.stroke && Math.hypot(x - pointer.startX, y - pointer.startY) > POINTER_TAP_MAX_MOVE) {
+      pointer.stroke = true;
+    }
+    if (pointer.stroke) gusts.push({ x, y, dx: x - pointer.x, dy: y - pointer.y });
+    pointer.x = x;
+    pointer.y = y;
+  };
+
+  const pointerUp = (id: number, time: number) => {
+    const pointer = pointers.get(id);
+    pointers.delete(id);
+    if (!pointer || pointer.stroke || time - pointer.startTime > POINTER_TAP_MAX_MS) return null;
+    return { x: pointer.startX, y: pointer.startY };
+  };
+
+  const takeGusts = () => {
+    const taken = gusts;
+    gusts = [];
+    return taken;
+  };
+
+  return {
+    pointerDown,
+    pointerMove,
+    pointerUp,
+    pointerCancel: (id: number) => {
+      pointers.delete(id);
+    },
+    takeGusts
+  };
+};
@@ -0,0 +1,76 @@
+import { STREAMING_MIN_BYTES } from '../constants';
+
+/**
+ * Seedable PRNG so a track + seed always produces the same show.
+ */
+
+export interface Random {
+  /** Uniform in [0, 1), a drop-in for Math.random(). */
+  next: () => number;
+  /** Restarts the sequence (from `seed`, or from the current seed). */
+  reset: (seed?: number) => void;
+  readonly seed: number;
+}
+
+// mulberry32: tiny, fast and plenty random for particle jitter
+export const createRandom = (initialSeed: number): Random => {
+  let seed = initialSeed >>> 0;
+  let state = seed;
+
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    reset: (newSeed?: number) => {
+      if (newSeed !== undefined) seed = newSeed >>> 0;
+      state = seed;
+    },
+    get seed() { return seed; }
+  };
+};
+
+/**
+ * A child stream seeded from the next value of `random`. Detail whose amount varies (with the
+ * backend's particle density, or whether the pool had room) is drawn from a child, so the
+ * parent always advances by exactly one draw and stays in step with the same seed elsewhere.
+ */
+export const forkRandom = (random: Random) => createRandom(Math.floor(random.next() * 4294967296));
+
+/**
+ * 32-bit FNV-1a hash of a string, for seeds typed in as words.
+ */
+export const seedFromString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Default seed for a track: the first 32 bits of the file's SHA-256, so the same file
+ * gets the same show wherever it's played. Falls back to name + size outside secure contexts.
+ * Streamed files only hash their start, reading all of an hour-long mix would defeat streaming.
+ */
+export const seedFromFile = async (file: File) => {
+  if (!crypto.subtle) return seedFromString(`${file.name}:${file.size}`);
+  const data = file.size > STREAMING_MIN_BYTES ? file.slice(0, STREAMING_MIN_BYTES) : file;
+  const digest = await crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+  return new DataView(digest).getUint32(0);
+};
+
+export const formatSeed = (seed: number) => (seed >>> 0).toString(16).padStart(8, '0');
+
+/**
+ * Accepts a hex seed as shown in the UI; anything else is hashed.
+ */
+export const parseSeed = (text: string) => {
+  const trimmed = text.trim();
+  if (/^[0-9a-f]{1,8}$/i.test(trimmed)) return parseInt(trimmed, 16) >>> 0;
+  return seedFromString(trimmed);
+};
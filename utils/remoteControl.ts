@@ -0,0 +1,207 @@
+import { FrequencyBand, RemoteCommand, VisualConfig, VisualNumberKey } from '../types';
+import { readStorage, writeStorage } from './storage';
+import { DEFAULT_VISUAL_CONFIG, VISUAL_CONFIG_RANGES } from './visualConfig';
+import { subscribeAnalysisFrames } from './visualizerBus';
+import { REMOTE_PUBLISH_INTERVAL_MS, REMOTE_RECONNECT_MS } from '../constants';
+
+/** An OSC message as the bridge relays it (bundles already flattened). */
+export interface RemoteMessage {
+  address: string;
+  args: unknown[];
+}
+
+export type RemoteStatus = 'connecting' | 'connected' | 'disconnected';
+
+// Where `npm run bridge` listens unless REMOTE_BRIDGE_URL says otherwise
+export const REMOTE_BRIDGE_URL = process.env.REMOTE_BRIDGE_URL || 'ws://localhost:8787';
+
+const ENABLED_STORAGE_KEY = 'visualizer.remote';
+
+// Remembered so a VJ rig reconnects by itself after a reload
+export const loadRemoteEnabled = () => readStorage(ENABLED_STORAGE_KEY) === true;
+
+export const saveRemoteEnabled = (enabled: boolean) => writeStorage(ENABLED_STORAGE_KEY, enabled);
+
+const BANDS: FrequencyBand[] = ['bass', 'mid', 'treble'];
+
+const isBand = (value: unknown): value is FrequencyBand => BANDS.includes(value as FrequencyBand);
+
+// OSC senders disagree on ints, floats and strings, so "0.5" counts as a number too
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const parseSpawn = (values: unknown[]): RemoteCommand => {
+  const command: RemoteCommand = { type: 'spawn' };
+  let rest = values;
+  if (isBand(rest[0])) {
+    command.band = rest[0];
+    rest = rest.slice(1);
+  }
+  const intensity = toNumber(rest[0]);
+  if (intensity !== null) command.intensity = Math.min(1, Math.max(0, intensity));
+  const x = toNumber(rest[1]);
+  const y = toNumber(rest[2]);
+  if (x !== null && y !== null) command.position = { x: Math.min(1, Math.max(0, x)), y: Math.min(1, Math.max(0, y)) };
+  return command;
+};
+
+const parseParam = (values: unknown[]): RemoteCommand | null => {
+  const [key, ...rest] = values;
+  if (typeof key !== 'string' || !(key in DEFAULT_VISUAL_CONFIG)) return null;
+  const configKey = key as keyof VisualConfig;
+  if (typeof DEFAULT_VISUAL_CONFIG[configKey] === 'number') {
+    const value = toNumber(rest[0]);
+    if (value === null) return null;
+    // The slider range, so a controller can't push the look somewhere the panel can't follow
+    const { min, max } = VISUAL_CONFIG_RANGES[configKey as VisualNumberKey];
+    return { type: 'param', key: configKey, value: Math.min(max, Math.max(min, value)) };
+  }
+  // Colors: "r, g, b" as one string, or as three numbers (e.g. three faders)
+  const channels = rest.slice(0, 3).map(toNumber);
+  if (channels.length === 3 && channels.every(c => c !== null)) {
+    return { type: 'param', key: configKey, value: channels.map(c => Math.round(c as number)).join(', ') };
+  }
+  return typeof rest[0] === 'string' ? { type: 'param', key: configKey, value: rest[0] } : null;
+};
+
+/**
+ * Decodes a control message, or null for anything unknown (including the app's own
+ * publications echoed by other browsers). Path segments count as leading arguments, so
+ * `/preset/Blizzard` is `/preset Blizzard` and `/param/gravity 0.1` is `/param gravity 0.1`,
+ * which suits controllers that can only send a fixed address per button.
+ */
+export const parseRemoteCommand = ({ address, args }: RemoteMessage): RemoteCommand | null => {
+  const [name, ...segments] = address.split('/').filter(Boolean);
+  const values = [...segments, ...args];
+
+  // TouchOSC-style buttons send 1 on press and 0 on release; only the press counts
+  const isRelease = args.length === 1 && (args[0] === 0 || args[0] === false);
+
+  switch (name) {
+    case 'seek': {
+      const time = toNumber(values[0]);
+      return time === null ? null : { type: 'seek', time: Math.max(0, time) };
+    }
+    case 'param':
+      return parseParam(values);
+  }
+  if (isRelease) return null;
+
+  switch (name) {
+    case 'play':
+      return { type: 'play' };
+    case 'pause':
+      return { type: 'pause' };
+    case 'toggle':
+      return { type: 'togglePlay' };
+    case 'next':
+      return { type: 'next' };
+    case 'previous':
+      return { type: 'previous' };
+    case 'preset':
+      return typeof values[0] === 'string' && values[0] ? { type: 'preset', name: values[0] } : null;
+    case 'mode':
+      return values[0] === 'winter' || values[0] === 'neon' ? { type: 'mode', mode: values[0] } : null;
+    case 'spawn':
+      return parseSpawn(values);
+    default:
+      return null;
+  }
+};
+
+export interface RemoteControlHandlers {
+  onCommand: (command: RemoteCommand) => void;
+  onStatusChange?: (status: RemoteStatus) => void;
+}
+
+export interface RemoteControl {
+  /** Sends a message out through the bridge as OSC. Dropped while disconnected. */
+  send: (address: string, args?: (number | string | boolean)[]) => void;
+  close: () => void;
+}
+
+/**
+ * Connects to the OSC bridge (bridge/oscBridge.js), retrying until closed, and turns what it
+ * relays into commands. While connected, every analysed frame is published back out:
+ *
+ *   /bands <bass> <mid> <treble>   0-1, throttled to REMOTE_PUBLISH_INTERVAL_MS
+ *   /energy <level>                0-1, alongside /bands
+ *   /beat <bpm> <confidence>       on every beat of the tracked tempo
+ *   /onset/<band> <strength>       on every onset
+ */
+export const createRemoteControl = (url: string, handlers: RemoteControlHandlers): RemoteControl => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastPublish = 0;
+
+  const setStatus = (status: RemoteStatus) => {
+    if (handlers.onStatusChange) handlers.onStatusChange(status);
+  };
+
+  const send = (address: string, args: (number | string | boolean)[] = []) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ address, args }));
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(String(event.data));
+    } catch {
+      return;
+    }
+    const { address, args } = (message ?? {}) as Partial<RemoteMessage>;
+    if (typeof address !== 'string') return;
+    const command = parseRemoteCommand({ address, args: Array.isArray(args) ? args : [] });
+    if (command) handlers.onCommand(command);
+  };
+
+  const connect = () => {
+    reconnectTimer = null;
+    try {
+      socket = new WebSocket(url);
+    } catch (err) {
+      // A malformed URL; retrying won't fix it
+      console.error(err);
+      setStatus('disconnected');
+      return;
+    }
+    socket.onopen = () => setStatus('connected');
+    socket.onmessage = handleMessage;
+    // 'error' is always followed by 'close', which handles both
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      setStatus('disconnected');
+      reconnectTimer = setTimeout(connect, REMOTE_RECONNECT_MS);
+    };
+  };
+
+  const unsubscribeFrames = subscribeAnalysisFrames((analysis, beat) => {
+    if (socket?.readyState !== WebSocket.OPEN) return;
+    const now = performance.now();
+    if (now - lastPublish >= REMOTE_PUBLISH_INTERVAL_MS) {
+      lastPublish = now;
+      send('/bands', [analysis.bassEnergy / 255, analysis.midEnergy / 255, analysis.trebleEnergy / 255]);
+      send('/energy', [analysis.energy / 255]);
+    }
+    if (beat.isBeat) send('/beat', [beat.bpm, beat.confidence]);
+    for (const onset of beat.onsets) send(`/onset/${onset.band}`, [onset.strength]);
+  });
+
+  setStatus('connecting');
+  connect();
+
+  return {
+    send,
+    close: () => {
+      closed = true;
+      unsubscribeFrames();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+      socket = null;
+    }
+  };
+};
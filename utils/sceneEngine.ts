@@ -0,0 +1,138 @@
+import { BurstOptions } from '../types';
+import { FrameSnapshot, SceneKind, SceneRunner, createSceneRunner } from './sceneRunner';
+import { getVisualConfig, subscribeVisualConfig } from './visualConfig';
+import type { SceneEngineRequest, SceneEngineResponse } from './sceneEngine.worker';
+
+export interface SceneEngine {
+  /** Hands over one animation frame's analysis; spawning, physics and drawing follow. */
+  frame: (snapshot: FrameSnapshot) => void;
+  resize: (width: number, height: number, dpr: number) => void;
+  restart: (seed: number) => void;
+  reseed: (seed: number) => void;
+  /** Spawns a snowflake now, at `options.at` (CSS px) or somewhere random. */
+  burst: (options?: BurstOptions) => void;
+  cyclePalette: () => void;
+  dispose: () => void;
+}
+
+// How the overlay canvas blends onto the WebGL one (Canvas2D draws everything in one canvas)
+const OVERLAY_BLEND: Record<SceneKind, string> = { winter: 'plus-lighter', neon: 'screen' };
+
+/**
+ * Runs a scene off the main thread: both canvases are transferred to a worker with
+ * transferControlToOffscreen, and the page only posts frame snapshots. Without OffscreenCanvas,
+ * or if the worker fails, the scene runs on the page as before.
+ *
+ * The engine owns its canvases (appended to `container` with `className`), because a canvas
+ * can only be transferred once and a failed worker takes its canvases with it.
+ */
+export const createSceneEngine = (kind: SceneKind, container: HTMLElement, initialSeed: number, className: string): SceneEngine => {
+  let seed = initialSeed;
+  let size = { width: 0, height: 0, dpr: 1 };
+  let canvas: HTMLCanvasElement;
+  let glCanvas: HTMLCanvasElement;
+  let worker: Worker | null = null;
+  let runner: SceneRunner | null = null;
+
+  const createCanvases = () => {
+    glCanvas = document.createElement('canvas');
+    canvas = document.createElement('canvas');
+    for (const target of [glCanvas, canvas]) {
+      target.className = className;
+      container.appendChild(target);
+    }
+  };
+
+  const setBackend = (webgl: boolean) => {
+    canvas.style.mixBlendMode = webgl ? OVERLAY_BLEND[kind] : '';
+  };
+
+  const startOnPage = () => {
+    runner = createSceneRunner(kind, canvas, glCanvas, seed, setBackend);
+    runner?.resize(size.width, size.height, size.dpr);
+  };
+
+  const fallBackToPage = (reason: string) => {
+    console.warn(`Scene worker failed (${reason}), rendering on the main thread`);
+    worker?.terminate();
+    worker = null;
+    // Transferred canvases can't get a context on the page anymore
+    canvas.remove();
+    glCanvas.remove();
+    createCanvases();
+    canvas.style.width = glCanvas.style.width = `${size.width}px`;
+    canvas.style.height = glCanvas.style.height = `${size.height}px`;
+    startOnPage();
+  };
+
+  const startWorker = () => {
+    if (typeof OffscreenCanvas === 'undefined' || !('transferControlToOffscreen' in canvas)) return false;
+    try {
+      const offscreen = canvas.transferControlToOffscreen();
+      const glOffscreen = glCanvas.transferControlToOffscreen();
+      worker = new Worker(new URL('./sceneEngine.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<SceneEngineResponse>) => {
+        if (e.data.type === 'backend') setBackend(e.data.webgl);
+        else fallBackToPage(e.data.message);
+      };
+      worker.onerror = (e) => fallBackToPage(e.message || 'worker error');
+      const request: SceneEngineRequest = { type: 'init', kind, canvas: offscreen, glCanvas: glOffscreen, seed, config: getVisualConfig() };
+      worker.postMessage(request, [offscreen, glOffscreen]);
+      return true;
+    } catch (error) {
+      fallBackToPage(error instanceof Error ? error.message : String(error));
+      return true;
+    }
+  };
+
+  const send = (request: SceneEngineRequest) => worker?.postMessage(request);
+
+  createCanvases();
+  if (!startWorker()) startOnPage();
+  const unsubscribeConfig = subscribeVisualConfig(() => send({ type: 'config', config: getVisualConfig() }));
+
+  return {
+    frame: (snapshot: FrameSnapshot) => {
+      if (worker) {
+        send({ type: 'frame', snapshot });
+      } else if (runner) {
+        runner.update(snapshot);
+        runner.render();
+      }
+    },
+    resize: (width: number, height: number, dpr: number) => {
+      size = { width, height, dpr };
+      for (const target of [canvas, glCanvas]) {
+        target.style.width = `${width}px`;
+        target.style.height = `${height}px`;
+      }
+      if (worker) send({ type: 'resize', width, height, dpr });
+      else runner?.resize(width, height, dpr);
+    },
+    restart: (newSeed: number) => {
+      seed = newSeed;
+      if (worker) send({ type: 'restart', seed });
+      else runner?.restart(seed);
+    },
+    reseed: (newSeed: number) => {
+      seed = newSeed;
+      if (worker) send({ type: 'reseed', seed });
+      else runner?.reseed(seed);
+    },
+    burst: (options?: BurstOptions) => {
+      if (worker) send({ type: 'burst', options });
+      else runner?.burst(options);
+    },
+    cyclePalette: () => {
+      if (worker) send({ type: 'cyclePalette' });
+      else runner?.cyclePalette();
+    },
+    dispose: () => {
+      unsubscribeConfig();
+      worker?.terminate();
+      runner?.dispose();
+      canvas.remove();
+      glCanvas.remove();
+    }
+  };
+};
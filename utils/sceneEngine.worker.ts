@@ -0,0 +1,72 @@
+import { BurstOptions, VisualConfig } from '../types';
+import { FrameSnapshot, SceneKind, SceneRunner, createSceneRunner } from './sceneRunner';
+import { setVisualConfig } from './visualConfig';
+
+export type SceneEngineRequest =
+  | { type: 'init'; kind: SceneKind; canvas: OffscreenCanvas; glCanvas: OffscreenCanvas; seed: number; config: VisualConfig }
+  | { type: 'frame'; snapshot: FrameSnapshot }
+  | { type: 'resize'; width: number; height: number; dpr: number }
+  | { type: 'restart'; seed: number }
+  | { type: 'reseed'; seed: number }
+  | { type: 'burst'; options?: BurstOptions }
+  | { type: 'cyclePalette' }
+  // The worker has its own copy of the config store, the page keeps it in sync
+  | { type: 'config'; config: VisualConfig };
+
+export type SceneEngineResponse =
+  | { type: 'backend'; webgl: boolean }
+  | { type: 'error'; message: string };
+
+let runner: SceneRunner | null = null;
+let renderScheduled = false;
+
+const post = (message: SceneEngineResponse) => self.postMessage(message);
+
+// Snapshots that arrive faster than the worker draws are all reacted to (no beat is lost),
+// but only the latest one is drawn
+const scheduleRender = typeof requestAnimationFrame === 'function'
+  ? (callback: () => void) => requestAnimationFrame(callback)
+  : (callback: () => void) => setTimeout(callback, 0);
+
+self.onmessage = (e: MessageEvent<SceneEngineRequest>) => {
+  const message = e.data;
+  if (message.type === 'init') {
+    setVisualConfig(message.config);
+    runner = createSceneRunner(message.kind, message.canvas, message.glCanvas, message.seed, webgl => post({ type: 'backend', webgl }));
+    if (!runner) post({ type: 'error', message: 'Could not create a canvas context in the worker' });
+    return;
+  }
+  if (message.type === 'config') {
+    setVisualConfig(message.config);
+    return;
+  }
+  if (!runner) return;
+
+  switch (message.type) {
+    case 'frame':
+      runner.update(message.snapshot);
+      if (!renderScheduled) {
+        renderScheduled = true;
+        scheduleRender(() => {
+          renderScheduled = false;
+          runner?.render();
+        });
+      }
+      break;
+    case 'resize':
+      runner.resize(message.width, message.height, message.dpr);
+      break;
+    case 'restart':
+      runner.restart(message.seed);
+      break;
+    case 'reseed':
+      runner.reseed(message.seed);
+      break;
+    case 'burst':
+      runner.burst(message.options);
+      break;
+    case 'cyclePalette':
+      runner.cyclePalette();
+      break;
+  }
+};
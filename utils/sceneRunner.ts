@@ -0,0 +1,197 @@
+import { AnyCanvas, AudioData, BeatInfo, BurstOptions, OverlaySettings, WindGust } from '../types';
+import { drawOverlays } from './overlays';
+import { createFixedStepClock } from './fixedStep';
+import { CANVAS_SCENE, WEBGL_SCENE } from './particlePool';
+import { SpriteRenderer, ShardRenderer, createSpriteRenderer, createShardRenderer } from './webglRenderer';
+import { WinterScene, createWinterScene, getWinterOverlayPalette } from './winterScene';
+import { NeonScene, NEON_TRAIL, createNeonScene } from './neonScene';
+import { getVisualConfig } from './visualConfig';
+import { SIMULATION_FRAME_RATE } from '../constants';
+
+export type SceneKind = 'winter' | 'neon';
+
+/** Everything a scene needs from the main thread for one animation frame. */
+export interface FrameSnapshot {
+  time: number; // performance.now() on the main thread, the one clock scenes run on
+  analysis: AudioData | null; // null while nothing is playing
+  beat: BeatInfo | null;
+  gesture?: { frozen: boolean; target: { x: number; y: number }; zoom: number; roll: number }; // Neon hand tracking
+  orbit?: { rotation: { x: number; y: number }; fov: number }; // Winter orbit camera target
+  wind?: WindGust[]; // Pointer strokes since the previous snapshot
+  overlays?: OverlaySettings;
+}
+
+/**
+ * Drives one scene on a pair of canvases: WebGL particles below, Canvas2D above (overlays,
+ * or everything when WebGL isn't available). Doesn't care whether the canvases are on the
+ * page or transferred to a worker, see utils/sceneEngine.ts.
+ */
+export interface SceneRunner {
+  /** Takes in a frame snapshot: spawns and gesture state. */
+  update: (snapshot: FrameSnapshot) => void;
+  /** Simulates up to the latest snapshot's time and draws. */
+  render: () => void;
+  resize: (width: number, height: number, dpr: number) => void;
+  /** Spawns a snowflake now (gesture / tap), at `options.at` in CSS px or somewhere random. */
+  burst: (options?: BurstOptions) => void;
+  /** Next base palette (Neon only). */
+  cyclePalette: () => void;
+  /** Empties the scene and restarts its randomness, for playback from the top. */
+  restart: (seed: number) => void;
+  reseed: (seed: number) => void;
+  dispose: () => void;
+}
+
+type SceneBackend =
+  | { kind: 'winter'; scene: WinterScene; renderer: SpriteRenderer | null }
+  | { kind: 'neon'; scene: NeonScene; renderer: ShardRenderer | null };
+
+export const createSceneRunner = (
+  kind: SceneKind,
+  canvas: AnyCanvas,
+  glCanvas: AnyCanvas | null,
+  initialSeed: number,
+  // Called with whether WebGL is drawing, the page blends the overlay canvas accordingly
+  onBackendChange?: (webgl: boolean) => void
+): SceneRunner | null => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  let seed = initialSeed;
+  let width = 0;
+  let height = 0;
+  let latest: FrameSnapshot | null = null;
+  let lastRenderTime: number | null = null;
+  const clock = createFixedStepClock();
+
+  // The WebGL scenes are much denser than Canvas2D can draw, so the backend picks the scene
+  const createBackend = (webgl: boolean): SceneBackend => {
+    if (kind === 'winter') {
+      const renderer = webgl && glCanvas ? createSpriteRenderer(glCanvas) : null;
+      return { kind, renderer, scene: createWinterScene(seed, renderer ? WEBGL_SCENE : CANVAS_SCENE) };
+    }
+    const renderer = webgl && glCanvas ? createShardRenderer(glCanvas) : null;
+    return { kind, renderer, scene: createNeonScene(seed, renderer ? WEBGL_SCENE : CANVAS_SCENE) };
+  };
+
+  let backend = createBackend(true);
+  onBackendChange?.(backend.renderer !== null);
+
+  const handleContextLost = () => {
+    backend = createBackend(false);
+    onBackendChange?.(false);
+  };
+  glCanvas?.addEventListener('webglcontextlost', handleContextLost);
+
+  const update = (snapshot: FrameSnapshot) => {
+    latest = snapshot;
+    if (backend.kind === 'neon' && snapshot.gesture) {
+      const { camera } = backend.scene;
+      camera.frozen = snapshot.gesture.frozen;
+      camera.target.x = snapshot.gesture.target.x;
+      camera.target.y = snapshot.gesture.target.y;
+      camera.targetZoom = snapshot.gesture.zoom;
+      camera.targetRoll = snapshot.gesture.roll;
+    }
+    if (backend.kind === 'winter' && snapshot.orbit) {
+      const { camera } = backend.scene;
+      camera.targetRotation.x = snapshot.orbit.rotation.x;
+      camera.targetRotation.y = snapshot.orbit.rotation.y;
+      camera.targetFov = snapshot.orbit.fov;
+    }
+    if (snapshot.wind?.length) backend.scene.wind(snapshot.wind, width, height);
+    if (snapshot.analysis && snapshot.beat) {
+      backend.scene.react(snapshot.analysis, snapshot.beat, snapshot.time, width, height);
+    }
+  };
+
+  const render = () => {
+    if (!latest) return;
+    const { time, analysis, overlays } = latest;
+    const globalEnergy = analysis ? analysis.energy : 0;
+
+    const steps = clock.advance(time);
+    for (let i = 0; i < steps; i++) backend.scene.step(globalEnergy);
+    const interpolation = clock.interpolation;
+
+    if (backend.kind === 'winter') {
+      const { scene, renderer } = backend;
+      if (renderer) {
+        renderer.draw(scene.particles, {
+          width,
+          height,
+          time,
+          rotation: scene.camera.rotation,
+          fov: scene.camera.fov,
+          interpolation,
+          background: getVisualConfig().colorBackground
+        });
+        ctx.clearRect(0, 0, width, height);
+      } else {
+        scene.draw(ctx, width, height, time, interpolation);
+      }
+      if (analysis && overlays) {
+        drawOverlays(ctx, overlays, getWinterOverlayPalette(), analysis.frequencyData, analysis.timeDomainData, width, height);
+      }
+    } else {
+      const { scene, renderer } = backend;
+      // The trail fades as much per second whatever the refresh rate
+      const elapsed = lastRenderTime === null ? 1000 / SIMULATION_FRAME_RATE : time - lastRenderTime;
+      const trailAlpha = 1 - Math.pow(1 - NEON_TRAIL[3], (elapsed * SIMULATION_FRAME_RATE) / 1000);
+      if (renderer) {
+        renderer.draw(scene.particles, {
+          width,
+          height,
+          time,
+          offset: scene.camera.offset,
+          zoom: scene.camera.zoom,
+          roll: scene.camera.roll,
+          trail: [NEON_TRAIL[0], NEON_TRAIL[1], NEON_TRAIL[2], trailAlpha],
+          // Frozen shards hold still instead of wobbling between their last two steps
+          interpolation: scene.camera.frozen ? 1 : interpolation
+        });
+        ctx.clearRect(0, 0, width, height);
+      } else {
+        scene.draw(ctx, width, height, trailAlpha, interpolation);
+      }
+      if (analysis && overlays) {
+        // Same hue drift as the shards so the overlays stay in the current palette
+        drawOverlays(ctx, overlays, scene.getOverlayPalette(time), analysis.frequencyData, analysis.timeDomainData, width, height);
+      }
+    }
+    lastRenderTime = time;
+  };
+
+  return {
+    update,
+    render,
+    burst: (options?: BurstOptions) => {
+      if (latest) backend.scene.burst(latest.time, width, height, options);
+    },
+    cyclePalette: () => {
+      if (backend.kind === 'neon') backend.scene.cyclePalette();
+    },
+    resize: (newWidth: number, newHeight: number, dpr: number) => {
+      width = newWidth;
+      height = newHeight;
+      for (const target of glCanvas ? [canvas, glCanvas] : [canvas]) {
+        target.width = width * dpr;
+        target.height = height * dpr;
+      }
+      ctx.scale(dpr, dpr);
+    },
+    restart: (newSeed: number) => {
+      seed = newSeed;
+      backend.scene.clear();
+      backend.scene.reseed(seed);
+    },
+    reseed: (newSeed: number) => {
+      seed = newSeed;
+      backend.scene.reseed(seed);
+    },
+    dispose: () => {
+      glCanvas?.removeEventListener('webglcontextlost', handleContextLost);
+      backend.renderer?.dispose();
+    }
+  };
+};
@@ -0,0 +1,158 @@
+import { FrequencyBand, StereoData } from '../types';
+import { getBandBins } from './audioUtils';
+import { createSpectrumAnalyser } from './fft';
+
+/**
+ * Left/right analysis next to the (mono-summing) main analyser: its input is split into one
+ * analyser per channel. Mono input is up-mixed to both channels first (a splitter alone would
+ * leave the right channel silent), so it reads as centered.
+ */
+export interface StereoAnalysis {
+  /** Reads both channels for this frame. The returned object is reused. */
+  process: () => StereoData;
+  /** Disconnects the tap from the analyser. */
+  dispose: () => void;
+}
+
+// Keeps the balance of near-silent bands at center instead of flickering side to side
+const SILENCE_POWER = 1e-9;
+
+const BANDS: FrequencyBand[] = ['bass', 'mid', 'treble'];
+
+const setBalance = (data: StereoData, left: Record<FrequencyBand, number>, right: Record<FrequencyBand, number>) => {
+  for (const band of BANDS) {
+    const total = left[band] + right[band];
+    data.balance[band] = total > SILENCE_POWER ? (right[band] - left[band]) / total : 0;
+  }
+};
+
+export const createStereoAnalysis = (analyser: AnalyserNode): StereoAnalysis => {
+  const ctx = analyser.context;
+  const upmix = ctx.createGain();
+  upmix.channelCount = 2;
+  upmix.channelCountMode = 'explicit';
+  upmix.channelInterpretation = 'speakers';
+  const splitter = ctx.createChannelSplitter(2);
+  // An AnalyserNode passes its input through, so the tap hangs off its output
+  analyser.connect(upmix);
+  upmix.connect(splitter);
+
+  const channels = [0, 1].map(channel => {
+    const node = ctx.createAnalyser();
+    node.fftSize = analyser.fftSize;
+    node.smoothingTimeConstant = analyser.smoothingTimeConstant;
+    splitter.connect(node, channel);
+    return {
+      node,
+      spectrum: new Float32Array(node.frequencyBinCount),
+      waveform: new Float32Array(node.fftSize),
+      power: { bass: 0, mid: 0, treble: 0 } as Record<FrequencyBand, number>
+    };
+  });
+  const { bassEnd, midEnd } = getBandBins(analyser.frequencyBinCount, ctx.sampleRate);
+  const { minDecibels, maxDecibels } = analyser;
+
+  const data: StereoData = { left: 0, right: 0, mid: 0, side: 0, balance: { bass: 0, mid: 0, treble: 0 } };
+
+  // Level on the byte scale getByteFrequencyData would give, plus linear power per band group
+  const readChannel = (channel: typeof channels[number]) => {
+    const { node, spectrum, power } = channel;
+    node.getFloatFrequencyData(spectrum);
+    node.getFloatTimeDomainData(channel.waveform);
+    power.bass = power.mid = power.treble = 0;
+    let level = 0;
+    for (let i = 0; i < spectrum.length; i++) {
+      const db = spectrum[i];
+      level += Math.min(1, Math.max(0, (db - minDecibels) / (maxDecibels - minDecibels))) * 255;
+      power[i < bassEnd ? 'bass' : i < midEnd ? 'mid' : 'treble'] += Math.pow(10, db / 10);
+    }
+    return level / spectrum.length;
+  };
+
+  const process = () => {
+    const [left, right] = channels;
+    data.left = readChannel(left);
+    data.right = readChannel(right);
+
+    let midSum = 0;
+    let sideSum = 0;
+    for (let i = 0; i < left.waveform.length; i++) {
+      const mid = (left.waveform[i] + right.waveform[i]) / 2;
+      const side = (left.waveform[i] - right.waveform[i]) / 2;
+      midSum += mid * mid;
+      sideSum += side * side;
+    }
+    data.mid = Math.sqrt(midSum / left.waveform.length);
+    data.side = Math.sqrt(sideSum / left.waveform.length);
+
+    setBalance(data, left.power, right.power);
+    return data;
+  };
+
+  return {
+    process,
+    dispose: () => {
+      analyser.disconnect(upmix);
+      upmix.disconnect();
+      splitter.disconnect();
+    }
+  };
+};
+
+/**
+ * The same readings from a decoded AudioBuffer, through the offline spectrum analyser (video
+ * export). A mono buffer feeds both channels, so it reads as centered like the live up-mix.
+ */
+export interface OfflineStereoAnalysis {
+  /** Reads both channels for the `fftSize` samples from `offset`. The returned object is reused. */
+  process: (offset: number) => StereoData;
+}
+
+export const createOfflineStereoAnalysis = (buffer: AudioBuffer, fftSize: number): OfflineStereoAnalysis => {
+  const channels = [0, 1].map(channel => ({
+    samples: buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1)),
+    spectrum: createSpectrumAnalyser(fftSize),
+    levels: new Uint8Array(fftSize / 2),
+    decibels: new Float32Array(fftSize / 2),
+    power: { bass: 0, mid: 0, treble: 0 } as Record<FrequencyBand, number>
+  }));
+  const { bassEnd, midEnd } = getBandBins(fftSize / 2, buffer.sampleRate);
+
+  const data: StereoData = { left: 0, right: 0, mid: 0, side: 0, balance: { bass: 0, mid: 0, treble: 0 } };
+
+  const readChannel = (channel: typeof channels[number], offset: number) => {
+    const { levels, decibels, power } = channel;
+    channel.spectrum.process(channel.samples, offset, levels, decibels);
+    power.bass = power.mid = power.treble = 0;
+    let level = 0;
+    for (let i = 0; i < levels.length; i++) {
+      level += levels[i];
+      power[i < bassEnd ? 'bass' : i < midEnd ? 'mid' : 'treble'] += Math.pow(10, decibels[i] / 10);
+    }
+    return level / levels.length;
+  };
+
+  const process = (offset: number) => {
+    const [left, right] = channels;
+    data.left = readChannel(left, offset);
+    data.right = readChannel(right, offset);
+
+    let midSum = 0;
+    let sideSum = 0;
+    for (let i = 0; i < fftSize; i++) {
+      const index = offset + i;
+      if (index < 0 || index >= buffer.length) continue;
+      const mid = (left.samples[index] + right.samples[index]) / 2;
+      const side = (left.samples[index] - right.samples[index]) / 2;
+      midSum += mid * mid;
+      sideSum += side * side;
+    }
+    data.mid = Math.sqrt(midSum / fftSize);
+    data.side = Math.sqrt(sideSum / fftSize);
+
+    setBalance(data, left.power, right.power);
+    return data;
+  };
+
+  return { process };
+};
@@ -0,0 +1,20 @@
+// Workers have no localStorage, anything they need is posted by the page
+const storage = typeof localStorage === 'undefined' ? null : localStorage;
+
+/** Parsed JSON under `key`, or null when missing, unreadable or unavailable. */
+export const readStorage = (key: string): unknown => {
+  try {
+    const raw = storage?.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeStorage = (key: string, value: unknown) => {
+  try {
+    storage?.setItem(key, JSON.stringify(value));
+  } catch {
+    // Private mode or full storage: the setting still applies, it just isn't remembered
+  }
+};
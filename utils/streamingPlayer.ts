@@ -0,0 +1,126 @@
+export type StreamStatus = 'loading' | 'buffering' | 'ready';
+
+export interface StreamingPlayerCallbacks {
+  onStatusChange: (status: StreamStatus) => void;
+  onDurationChange: (duration: number) => void;
+  onEnded: () => void;
+}
+
+/**
+ * Plays long files and URLs through an <audio> element instead of decoding them up front, so an
+ * hour-long mix starts in a moment and doesn't hold hundreds of MB of PCM. The element is wrapped
+ * in a MediaElementAudioSourceNode (which can only happen once per element), so one element is
+ * reused for every streamed track. Times are in seconds of track.
+ */
+export interface StreamingPlayer {
+  /** Starts loading a file or URL; resolves once it can play, rejects if it can't be loaded. */
+  load: (source: File | string) => Promise<void>;
+  play: () => Promise<void>;
+  pause: () => void;
+  seek: (time: number) => void;
+  getTime: () => number;
+  /** 0 while unknown, and for live streams, which can't be seeked. */
+  getDuration: () => number;
+  /** End of the buffered range the playhead is in. */
+  getBufferedEnd: () => number;
+  setPlaybackRate: (rate: number) => void;
+  /** Stops and lets go of the current track. */
+  unload: () => void;
+}
+
+export const createStreamingPlayer = (
+  ctx: AudioContext,
+  destination: AudioNode,
+  callbacks: StreamingPlayerCallbacks
+): StreamingPlayer => {
+  const element = new Audio();
+  element.preload = 'auto';
+  // Cross-origin URLs only reach the graph (instead of silence) when the server sends CORS headers
+  element.crossOrigin = 'anonymous';
+  // Rate changes behave like the buffer path: pitch follows the speed
+  element.preservesPitch = false;
+  ctx.createMediaElementSource(element).connect(destination);
+
+  let objectUrl: string | null = null;
+  let cancelLoad: (() => void) | null = null;
+
+  const getDuration = () => Number.isFinite(element.duration) ? element.duration : 0;
+
+  element.addEventListener('waiting', () => callbacks.onStatusChange('buffering'));
+  element.addEventListener('playing', () => callbacks.onStatusChange('ready'));
+  element.addEventListener('seeked', () => callbacks.onStatusChange('ready'));
+  element.addEventListener('durationchange', () => callbacks.onDurationChange(getDuration()));
+  element.addEventListener('ended', () => callbacks.onEnded());
+
+  const unload = () => {
+    cancelLoad?.();
+    element.pause();
+    // Dropping the src (rather than setting it to '') stops the download without raising an error
+    element.removeAttribute('src');
+    element.load();
+    if (objectUrl) {
+      URL.revokeObjectURL(objectUrl);
+      objectUrl = null;
+    }
+  };
+
+  const load = (source: File | string) => {
+    unload();
+    callbacks.onStatusChange('loading');
+    callbacks.onDurationChange(0);
+
+    return new Promise<void>((resolve, reject) => {
+      const settle = () => {
+        element.removeEventListener('canplay', handleReady);
+        element.removeEventListener('error', handleError);
+        cancelLoad = null;
+      };
+      const handleReady = () => {
+        settle();
+        callbacks.onStatusChange('ready');
+        resolve();
+      };
+      const handleError = () => {
+        settle();
+        reject(element.error ?? new Error('Could not load stream'));
+      };
+      element.addEventListener('canplay', handleReady);
+      element.addEventListener('error', handleError);
+      cancelLoad = () => {
+        settle();
+        reject(new DOMException('Load superseded', 'AbortError'));
+      };
+
+      if (typeof source === 'string') {
+        element.src = source;
+      } else {
+        objectUrl = URL.createObjectURL(source);
+        element.src = objectUrl;
+      }
+    });
+  };
+
+  const getBufferedEnd = () => {
+    const time = element.currentTime;
+    for (let i = 0; i < element.buffered.length; i++) {
+      if (element.buffered.start(i) <= time && time <= element.buffered.end(i)) return element.buffered.end(i);
+    }
+    return time;
+  };
+
+  return {
+    load,
+    play: () => element.play(),
+    pause: () => element.pause(),
+    seek: (time: number) => { element.currentTime = time; },
+    getTime: () => element.currentTime,
+    getDuration,
+    getBufferedEnd,
+    setPlaybackRate: (rate: number) => {
+      // load() resets playbackRate to the default, so set both to keep the rate across tracks
+      element.defaultPlaybackRate = rate;
+      element.playbackRate = rate;
+    },
+    unload
+  };
+};
@@ -0,0 +1,86 @@
+export interface TabCaptureOptions {
+  /** The share ended from outside the app (the browser's "Stop sharing" bar, or the tab closed). */
+  onEnded?: () => void;
+}
+
+export interface TabCapture {
+  stream: MediaStream;
+  label: string; // What's being shared, as the browser names it
+  stop: () => void;
+}
+
+const NO_AUDIO_ERROR = 'NoAudioError';
+
+/**
+ * Captures the audio of another tab (Spotify web, YouTube) or the whole system with
+ * getDisplayMedia and routes it into the given analyser.
+ *
+ * Like live input it's never connected to ctx.destination: the shared tab is already
+ * playing, we only listen in.
+ */
+export const startTabCapture = async (
+  ctx: AudioContext,
+  analyser: AnalyserNode,
+  options: TabCaptureOptions = {}
+): Promise<TabCapture> => {
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw new DOMException('getDisplayMedia is not available', 'NotSupportedError');
+  }
+
+  const stream = await navigator.mediaDevices.getDisplayMedia({
+    // Chrome only offers audio alongside video, the video track is dropped right away
+    video: true,
+    audio: {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false
+    },
+    // Hints (Chrome): offer system audio for screens, keep this tab out of the picker
+    systemAudio: 'include',
+    selfBrowserSurface: 'exclude'
+  } as DisplayMediaStreamOptions);
+
+  const [audioTrack] = stream.getAudioTracks();
+  const [videoTrack] = stream.getVideoTracks();
+  if (!audioTrack) {
+    stream.getTracks().forEach(t => t.stop());
+    throw new DOMException('The shared surface has no audio track', NO_AUDIO_ERROR);
+  }
+  videoTrack?.stop();
+  const label = videoTrack?.label || audioTrack.label || 'Shared Audio';
+
+  const source = ctx.createMediaStreamSource(stream);
+  source.connect(analyser);
+
+  let stopped = false;
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    stream.getTracks().forEach(t => t.stop());
+    try { source.disconnect(); } catch(e) {}
+  };
+
+  // Stopping a track ourselves doesn't fire 'ended', so this only sees the browser ending the share
+  audioTrack.addEventListener('ended', () => {
+    if (stopped) return;
+    stop();
+    if (options.onEnded) options.onEnded();
+  });
+
+  return { stream, label, stop };
+};
+
+/** Error text for a capture that couldn't be started. */
+export const describeCaptureError = (error: unknown) => {
+  const name = error instanceof DOMException ? error.name : '';
+  switch (name) {
+    case NO_AUDIO_ERROR:
+      return 'The shared source has no audio. Share a tab and tick "Share tab audio".';
+    case 'NotAllowedError':
+      return 'Tab sharing was cancelled or blocked.';
+    case 'NotSupportedError':
+      return 'Tab audio capture isn\'t supported in this browser.';
+    default:
+      return 'Could not capture tab audio.';
+  }
+};
@@ -0,0 +1,46 @@
+import { BeatMap } from '../types';
+import { mixdown } from './audioUtils';
+import type { BeatMapRequest, BeatMapResponse } from './beatMap.worker';
+
+export interface TrackAnalysisJob {
+  promise: Promise<BeatMap>;
+  cancel: () => void;
+}
+
+/**
+ * Builds the beat map for a decoded track in a worker so the animation loop keeps running.
+ * Cancelling terminates the worker and rejects the promise with an AbortError.
+ */
+export const analyzeTrack = (buffer: AudioBuffer, onProgress?: (progress: number) => void): TrackAnalysisJob => {
+  const worker = new Worker(new URL('./beatMap.worker.ts', import.meta.url), { type: 'module' });
+  let rejectJob: (reason: unknown) => void = () => {};
+
+  const promise = new Promise<BeatMap>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (e: MessageEvent<BeatMapResponse>) => {
+      if (e.data.type === 'progress') {
+        if (onProgress) onProgress(e.data.progress);
+      } else {
+        worker.terminate();
+        resolve(e.data.beatMap);
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Track analysis failed'));
+    };
+  });
+
+  const samples = mixdown(buffer);
+  const request: BeatMapRequest = { samples, sampleRate: buffer.sampleRate };
+  worker.postMessage(request, [samples.buffer]);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectJob(new DOMException('Track analysis cancelled', 'AbortError'));
+    }
+  };
+};
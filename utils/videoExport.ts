@@ -0,0 +1,326 @@
+import { Muxer as WebMMuxer, ArrayBufferTarget as WebMTarget, FileSystemWritableFileStreamTarget as WebMFileTarget } from 'webm-muxer';
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target, FileSystemWritableFileStreamTarget as Mp4FileTarget } from 'mp4-muxer';
+import { BeatMap, ExportFormat, ExportOptions, ExportResolution } from '../types';
+import { mixdown, summarizeAudio } from './audioUtils';
+import { createBeatTracker } from './beatTracker';
+import { createBeatMapCursor } from './beatMap';
+import { createSpectrumAnalyser } from './fft';
+import { createBandAnalyzer } from './frequencyBands';
+import { drawOverlays } from './overlays';
+import { createOfflineStereoAnalysis } from './stereoAnalysis';
+import { SpriteRenderer, createSpriteRenderer } from './webglRenderer';
+import { CANVAS_SCENE, WEBGL_SCENE } from './particlePool';
+import { createWinterScene, getWinterOverlayPalette } from './winterScene';
+import { getVisualConfig } from './visualConfig';
+import {
+  SIMULATION_FRAME_RATE,
+  EXPORT_LOGICAL_HEIGHT,
+  EXPORT_RESOLUTIONS,
+  EXPORT_VIDEO_BITRATE,
+  EXPORT_AUDIO_BITRATE,
+  EXPORT_AUDIO_SAMPLE_RATE,
+  EXPORT_KEYFRAME_SECONDS,
+  EXPORT_MAX_IN_MEMORY_BYTES
+} from '../constants';
+
+export interface VideoExportJob {
+  promise: Promise<Blob | null>; // Null when written to a file instead
+  cancel: () => void;
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = { webm: 'video/webm', mp4: 'video/mp4' };
+
+/** Expected file size in bytes: encoders aim for the configured bitrates. */
+export const estimateExportBytes = (duration: number, resolution: ExportResolution) =>
+  Math.ceil(((EXPORT_VIDEO_BITRATE[resolution] + EXPORT_AUDIO_BITRATE) * duration) / 8);
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1e9 ? `${(bytes / 1e9).toFixed(1)} GB` : `${Math.max(1, Math.round(bytes / 1e6))} MB`;
+
+const FFT_SIZE = 2048; // Same as the live AnalyserNode in App.tsx
+const AUDIO_CHUNK_FRAMES = 4800; // 100 ms at 48 kHz
+const MAX_QUEUED_FRAMES = 4;
+
+// [WebCodecs codec string, muxer codec id], in order of preference
+const VIDEO_CODECS: Record<ExportFormat, [string, string][]> = {
+  webm: [['vp09.00.51.08', 'V_VP9'], ['vp8', 'V_VP8']],
+  mp4: [['avc1.640034', 'avc'], ['vp09.00.51.08', 'vp9']]
+};
+const AUDIO_CODECS: Record<ExportFormat, [string, string][]> = {
+  webm: [['opus', 'A_OPUS']],
+  mp4: [['mp4a.40.2', 'aac'], ['opus', 'opus']]
+};
+
+interface ExportMuxer {
+  addVideoChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  finalize: () => void;
+}
+
+// setTimeout is clamped (and throttled hard in background tabs), a message round-trip isn't
+const yieldToEventLoop = () => new Promise<void>(resolve => {
+  const channel = new MessageChannel();
+  channel.port1.onmessage = () => resolve();
+  channel.port2.postMessage(null);
+});
+
+const pickVideoConfig = async (format: ExportFormat, width: number, height: number, frameRate: number, bitrate: number) => {
+  for (const [codec, muxCodec] of VIDEO_CODECS[format]) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate, framerate: frameRate };
+    if (codec.startsWith('avc1')) config.avc = { format: 'avc' };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return { config, muxCodec };
+  }
+  throw new Error(`This browser can't encode ${format.toUpperCase()} video at ${width}x${height}`);
+};
+
+const pickAudioConfig = async (format: ExportFormat, sampleRate: number, numberOfChannels: number) => {
+  for (const [codec, muxCodec] of AUDIO_CODECS[format]) {
+    const config: AudioEncoderConfig = { codec, sampleRate, numberOfChannels, bitrate: EXPORT_AUDIO_BITRATE };
+    const { supported } = await AudioEncoder.isConfigSupported(config);
+    if (supported) return { config, muxCodec };
+  }
+  throw new Error(`This browser can't encode ${format.toUpperCase()} audio`);
+};
+
+// With a file the muxer writes as it goes; otherwise the whole video is built in memory
+const createMuxer = (
+  format: ExportFormat,
+  video: { codec: string; width: number; height: number; frameRate: number },
+  audio: { codec: string; numberOfChannels: number; sampleRate: number },
+  file?: FileSystemWritableFileStream
+): { muxer: ExportMuxer; getBuffer: () => ArrayBuffer | null } => {
+  if (format === 'webm') {
+    if (file) return { muxer: new WebMMuxer({ target: new WebMFileTarget(file), video, audio }), getBuffer: () => null };
+    const target = new WebMTarget();
+    const muxer = new WebMMuxer({ target, video, audio });
+    return { muxer, getBuffer: () => target.buffer };
+  }
+  const mp4Video = { ...video, codec: video.codec as 'avc' | 'vp9' };
+  const mp4Audio = { ...audio, codec: audio.codec as 'aac' | 'opus' };
+  if (file) {
+    // The index goes at the end, patched in place, so nothing has to be held back
+    const muxer = new Mp4Muxer({ target: new Mp4FileTarget(file), video: mp4Video, audio: mp4Audio, fastStart: false });
+    return { muxer, getBuffer: () => null };
+  }
+  const target = new Mp4Target();
+  const muxer = new Mp4Muxer({ target, video: mp4Video, audio: mp4Audio, fastStart: 'in-memory' });
+  return { muxer, getBuffer: () => target.buffer };
+};
+
+/**
+ * Resamples (and, past stereo, downmixes) the track to what the audio encoder accepts.
+ */
+const renderExportAudio = (buffer: AudioBuffer) => {
+  const channels = Math.min(2, buffer.numberOfChannels);
+  const offline = new OfflineAudioContext(channels, Math.ceil(buffer.duration * EXPORT_AUDIO_SAMPLE_RATE), EXPORT_AUDIO_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+};
+
+/**
+ * Renders the Winter scene for a whole track, offline and frame-exact: the simulation is
+ * stepped at SIMULATION_FRAME_RATE on the track clock, fed from the decoded samples instead
+ * of the live AnalyserNode, and every output frame is encoded with WebCodecs together with
+ * the original audio. Runs on the main thread but yields between frames.
+ *
+ * Given a file (see openSaveFile) the video is written to it as it's encoded, which is the only
+ * way long 4K exports fit; the file is closed when done and aborted on failure. Without one the
+ * result is a Blob, and exports estimated over EXPORT_MAX_IN_MEMORY_BYTES are refused up front.
+ * Cancelling rejects the promise with an AbortError.
+ */
+export const exportVideo = (
+  buffer: AudioBuffer,
+  beatMap: BeatMap | null,
+  options: ExportOptions,
+  onProgress?: (progress: number) => void,
+  file?: FileSystemWritableFileStream
+): VideoExportJob => {
+  let cancelled = false;
+
+  const run = async (): Promise<Blob | null> => {
+    if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined') {
+      throw new Error("Video export needs WebCodecs, which this browser doesn't support");
+    }
+    const estimate = estimateExportBytes(buffer.duration, options.resolution);
+    if (!file && estimate > EXPORT_MAX_IN_MEMORY_BYTES) {
+      throw new Error(`This export would be about ${formatBytes(estimate)}, too large to build in memory. Export at a lower resolution, or use a browser that can save to disk as it renders (Chrome, Edge).`);
+    }
+
+    const { width, height } = EXPORT_RESOLUTIONS[options.resolution];
+    const { frameRate, format } = options;
+    const stepsPerFrame = Math.max(1, Math.round(SIMULATION_FRAME_RATE / frameRate));
+    const scale = height / EXPORT_LOGICAL_HEIGHT;
+    const logicalWidth = width / scale;
+    const logicalHeight = EXPORT_LOGICAL_HEIGHT;
+
+    const audio = await renderExportAudio(buffer);
+    const channels = audio.numberOfChannels;
+    const videoSetup = await pickVideoConfig(format, width, height, frameRate, EXPORT_VIDEO_BITRATE[options.resolution]);
+    const audioSetup = await pickAudioConfig(format, audio.sampleRate, channels);
+    if (cancelled) throw new DOMException('Video export cancelled', 'AbortError');
+
+    const { muxer, getBuffer } = createMuxer(
+      format,
+      { codec: videoSetup.muxCodec, width, height, frameRate },
+      { codec: audioSetup.muxCodec, numberOfChannels: channels, sampleRate: audio.sampleRate },
+      file
+    );
+
+    let encodeError: Error | null = null;
+    const videoEncoder = new VideoEncoder({
+      output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      error: e => { encodeError = e; }
+    });
+    const audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      error: e => { encodeError = e; }
+    });
+    videoEncoder.configure(videoSetup.config);
+    audioEncoder.configure(audioSetup.config);
+
+    let renderer: SpriteRenderer | null = null;
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Could not create a canvas for rendering');
+      ctx.scale(scale, scale);
+
+      // Same backend choice as the live view. The seed alone decides where snowflakes spawn, so
+      // the show matches either way; WebGL only draws each one with more, smaller particles
+      const glCanvas = document.createElement('canvas');
+      glCanvas.width = width;
+      glCanvas.height = height;
+      renderer = createSpriteRenderer(glCanvas);
+
+      // --- Analysis, mirroring the live AnalyserNode ---
+      const samples = mixdown(buffer);
+      const sampleRate = buffer.sampleRate;
+      const spectrum = createSpectrumAnalyser(FFT_SIZE);
+      const bandAnalyzer = createBandAnalyzer();
+      const stereo = createOfflineStereoAnalysis(buffer, FFT_SIZE);
+      const frequencyData = new Uint8Array(FFT_SIZE / 2);
+      const timeDomainData = new Uint8Array(FFT_SIZE);
+      const cursor = beatMap ? createBeatMapCursor(beatMap) : null;
+      const tracker = createBeatTracker();
+      const scene = createWinterScene(options.seed, renderer ? WEBGL_SCENE : CANVAS_SCENE);
+
+      // Audio is encoded alongside the video so the muxer can interleave and nothing piles up in memory
+      let audioPosition = 0;
+      const encodeAudioUntil = (time: number) => {
+        const end = Math.min(audio.length, Math.ceil(time * audio.sampleRate));
+        while (audioPosition < end) {
+          const frames = Math.min(AUDIO_CHUNK_FRAMES, audio.length - audioPosition);
+          const data = new Float32Array(frames * channels);
+          for (let c = 0; c < channels; c++) {
+            data.set(audio.getChannelData(c).subarray(audioPosition, audioPosition + frames), c * frames);
+          }
+          const chunk = new AudioData({
+            format: 'f32-planar',
+            sampleRate: audio.sampleRate,
+            numberOfFrames: frames,
+            numberOfChannels: channels,
+            timestamp: Math.round((audioPosition / audio.sampleRate) * 1e6),
+            data
+          });
+          audioEncoder.encode(chunk);
+          chunk.close();
+          audioPosition += frames;
+        }
+      };
+
+      const totalSteps = Math.floor(buffer.duration * SIMULATION_FRAME_RATE);
+      const totalFrames = Math.ceil(totalSteps / stepsPerFrame);
+      const keyFrameInterval = EXPORT_KEYFRAME_SECONDS * frameRate;
+
+      for (let step = 0; step < totalSteps; step++) {
+        if (cancelled) throw new DOMException('Video export cancelled', 'AbortError');
+        if (encodeError) throw encodeError;
+
+        const time = step / SIMULATION_FRAME_RATE;
+        const offset = Math.round(time * sampleRate) - FFT_SIZE;
+        spectrum.process(samples, offset, frequencyData);
+        for (let i = 0; i < FFT_SIZE; i++) {
+          const index = offset + i;
+          const value = index >= 0 && index < samples.length ? samples[index] : 0;
+          timeDomainData[i] = Math.max(0, Math.min(255, Math.round(128 + value * 128)));
+        }
+
+        const analysis = summarizeAudio(frequencyData, timeDomainData, sampleRate, bandAnalyzer);
+        analysis.stereo = stereo.process(offset);
+        const beat = cursor
+          ? cursor.advance(time, 1 / SIMULATION_FRAME_RATE)
+          : tracker.process(frequencyData, time, sampleRate);
+
+        scene.react(analysis, beat, time * 1000, logicalWidth, logicalHeight);
+        scene.step(analysis.energy);
+        if (step % stepsPerFrame !== 0) continue;
+
+        // --- Output frame ---
+        const frame = step / stepsPerFrame;
+        if (renderer) {
+          renderer.draw(scene.particles, {
+            width: logicalWidth,
+            height: logicalHeight,
+            time: time * 1000,
+            rotation: scene.camera.rotation,
+            fov: scene.camera.fov,
+            interpolation: 1,
+            background: getVisualConfig().colorBackground
+          });
+          ctx.drawImage(glCanvas, 0, 0, logicalWidth, logicalHeight);
+        } else {
+          scene.draw(ctx, logicalWidth, logicalHeight, time * 1000);
+        }
+        if (options.overlays) {
+          drawOverlays(ctx, options.overlays, getWinterOverlayPalette(), frequencyData, timeDomainData, logicalWidth, logicalHeight);
+        }
+
+        encodeAudioUntil(time + 1 / frameRate);
+        const videoFrame = new VideoFrame(canvas, {
+          timestamp: Math.round(time * 1e6),
+          duration: Math.round(1e6 / frameRate)
+        });
+        videoEncoder.encode(videoFrame, { keyFrame: frame % keyFrameInterval === 0 });
+        videoFrame.close();
+
+        while (videoEncoder.encodeQueueSize > MAX_QUEUED_FRAMES) await yieldToEventLoop();
+        if (frame % 10 === 0) {
+          if (onProgress) onProgress(frame / totalFrames);
+          await yieldToEventLoop();
+        }
+      }
+
+      encodeAudioUntil(buffer.duration);
+      await videoEncoder.flush();
+      await audioEncoder.flush();
+      if (encodeError) throw encodeError;
+      muxer.finalize();
+      if (onProgress) onProgress(1);
+
+      const result = getBuffer();
+      return result ? new Blob([result], { type: EXPORT_MIME_TYPES[format] }) : null;
+    } finally {
+      if (videoEncoder.state !== 'closed') videoEncoder.close();
+      if (audioEncoder.state !== 'closed') audioEncoder.close();
+      renderer?.dispose();
+    }
+  };
+
+  const promise = file
+    ? run().then(
+        async (result) => { await file.close(); return result; },
+        async (error) => { await file.abort().catch(() => {}); throw error; }
+      )
+    : run();
+
+  return {
+    promise,
+    cancel: () => { cancelled = true; }
+  };
+};
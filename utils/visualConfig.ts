@@ -0,0 +1,146 @@
+import { VisualConfig, VisualNumberKey } from '../types';
+import { readStorage, writeStorage } from './storage';
+import {
+  COLOR_BASE,
+  COLOR_MID_FREQ,
+  COLOR_HIGH_FREQ,
+  COLOR_BACKGROUND,
+  GRAVITY,
+  FRICTION,
+  BASE_PARTICLE_SIZE,
+  SIZE_VARIATION,
+  BEAT_THRESHOLD_INIT,
+  BEAT_DECAY_RATE,
+  MAX_PARTICLES_PER_FIREWORK,
+  MIN_PARTICLES_PER_FIREWORK,
+  ENERGY_MULTIPLIER,
+  FADE_SPEED_BASE,
+  FADE_SPEED_VAR
+} from '../constants';
+
+export const DEFAULT_VISUAL_CONFIG: VisualConfig = {
+  colorBase: COLOR_BASE,
+  colorMidFreq: COLOR_MID_FREQ,
+  colorHighFreq: COLOR_HIGH_FREQ,
+  colorBackground: COLOR_BACKGROUND,
+  gravity: GRAVITY,
+  friction: FRICTION,
+  baseParticleSize: BASE_PARTICLE_SIZE,
+  sizeVariation: SIZE_VARIATION,
+  beatThreshold: BEAT_THRESHOLD_INIT,
+  beatDecayRate: BEAT_DECAY_RATE,
+  maxParticlesPerFirework: MAX_PARTICLES_PER_FIREWORK,
+  minParticlesPerFirework: MIN_PARTICLES_PER_FIREWORK,
+  energyMultiplier: ENERGY_MULTIPLIER,
+  fadeSpeedBase: FADE_SPEED_BASE,
+  fadeSpeedVar: FADE_SPEED_VAR
+};
+
+// What the sliders allow; imported, stored and remote values are clamped to it too
+export const VISUAL_CONFIG_RANGES: Record<VisualNumberKey, { min: number; max: number; step: number }> = {
+  gravity: { min: 0, max: 0.2, step: 0.005 },
+  friction: { min: 0.8, max: 1, step: 0.005 },
+  energyMultiplier: { min: 0.5, max: 12, step: 0.1 },
+  baseParticleSize: { min: 0.1, max: 3, step: 0.05 },
+  sizeVariation: { min: 0, max: 6, step: 0.1 },
+  minParticlesPerFirework: { min: 0, max: 2000, step: 50 },
+  maxParticlesPerFirework: { min: 100, max: 4000, step: 50 },
+  fadeSpeedBase: { min: 0.001, max: 0.05, step: 0.001 },
+  fadeSpeedVar: { min: 0, max: 0.03, step: 0.001 },
+  beatThreshold: { min: 1, max: 3, step: 0.05 },
+  beatDecayRate: { min: 0.8, max: 1, step: 0.005 }
+};
+
+const CONFIG_STORAGE_KEY = 'visualizer.config';
+const PRESETS_STORAGE_KEY = 'visualizer.presets';
+const RGB_PATTERN = /^\s*\d{1,3}\s*,\s*\d{1,3}\s*,\s*\d{1,3}\s*$/;
+
+/**
+ * Validates a parsed config (e.g. an imported preset) against the defaults: missing or
+ * ill-typed keys keep the default value, numbers are clamped to VISUAL_CONFIG_RANGES and
+ * unknown keys are dropped.
+ */
+export const parseVisualConfig = (value: unknown): VisualConfig => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Not a settings object');
+  }
+  const source = value as Record<string, unknown>;
+  const config: Record<string, string | number> = { ...DEFAULT_VISUAL_CONFIG };
+  for (const key of Object.keys(DEFAULT_VISUAL_CONFIG)) {
+    const candidate = source[key];
+    if (typeof config[key] === 'number') {
+      const { min, max } = VISUAL_CONFIG_RANGES[key as VisualNumberKey];
+      if (typeof candidate === 'number' && Number.isFinite(candidate)) config[key] = Math.min(max, Math.max(min, candidate));
+    } else if (typeof candidate === 'string' && RGB_PATTERN.test(candidate)) {
+      config[key] = candidate.split(',').map(c => Math.min(255, Number(c))).join(', ');
+    }
+  }
+  return config as unknown as VisualConfig;
+};
+
+const loadStoredConfig = () => {
+  const stored = readStorage(CONFIG_STORAGE_KEY);
+  if (!stored) return DEFAULT_VISUAL_CONFIG;
+  try {
+    return parseVisualConfig(stored);
+  } catch {
+    // Not a settings object (an older version or a hand edit); this runs at import, so it mustn't throw
+    return DEFAULT_VISUAL_CONFIG;
+  }
+};
+
+let current: VisualConfig = loadStoredConfig();
+const listeners = new Set<() => void>();
+
+/**
+ * The live look. Scenes and the beat tracker read it when they spawn, step or draw, so edits
+ * apply to the next frame. The snapshot is replaced (never mutated) on every change, which
+ * makes it usable with React's useSyncExternalStore.
+ */
+export const getVisualConfig = () => current;
+
+export const setVisualConfig = (patch: Partial<VisualConfig>) => {
+  current = { ...current, ...patch };
+  writeStorage(CONFIG_STORAGE_KEY, current);
+  listeners.forEach(listener => listener());
+};
+
+export const resetVisualConfig = () => setVisualConfig(DEFAULT_VISUAL_CONFIG);
+
+/** Calls `listener` after every change. Returns the unsubscribe function. */
+export const subscribeVisualConfig = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// --- Presets ---
+
+export type VisualPresets = Record<string, VisualConfig>;
+
+export const loadVisualPresets = (): VisualPresets => {
+  const stored = readStorage(PRESETS_STORAGE_KEY);
+  if (typeof stored !== 'object' || stored === null) return {};
+  const presets: VisualPresets = {};
+  for (const [name, config] of Object.entries(stored)) {
+    try {
+      presets[name] = parseVisualConfig(config);
+    } catch {
+      // Skip presets saved by an incompatible version
+    }
+  }
+  return presets;
+};
+
+export const saveVisualPreset = (name: string, config: VisualConfig): VisualPresets => {
+  const presets = { ...loadVisualPresets(), [name]: config };
+  writeStorage(PRESETS_STORAGE_KEY, presets);
+  return presets;
+};
+
+export const deleteVisualPreset = (name: string): VisualPresets => {
+  const { [name]: _, ...presets } = loadVisualPresets();
+  writeStorage(PRESETS_STORAGE_KEY, presets);
+  return presets;
+};
@@ -0,0 +1,31 @@
+import { AudioData, BeatInfo, BurstOptions } from '../types';
+
+/**
+ * Traffic between the mounted visualizer and things outside React's tree: snowflakes fired by
+ * hand from elsewhere (MIDI pads, remote control) go in, every analysed frame comes out.
+ * Only one visualizer is mounted at a time, so it's simply whoever subscribed.
+ */
+
+const triggerListeners = new Set<(options: BurstOptions) => void>();
+const frameListeners = new Set<(analysis: AudioData, beat: BeatInfo) => void>();
+
+export const emitTrigger = (options: BurstOptions) => triggerListeners.forEach(listener => listener(options));
+
+export const subscribeTriggers = (listener: (options: BurstOptions) => void) => {
+  triggerListeners.add(listener);
+  return () => {
+    triggerListeners.delete(listener);
+  };
+};
+
+/** Called by the visualizer for every frame it analysed (not while stopped). */
+export const emitAnalysisFrame = (analysis: AudioData, beat: BeatInfo) => {
+  frameListeners.forEach(listener => listener(analysis, beat));
+};
+
+export const subscribeAnalysisFrames = (listener: (analysis: AudioData, beat: BeatInfo) => void) => {
+  frameListeners.add(listener);
+  return () => {
+    frameListeners.delete(listener);
+  };
+};
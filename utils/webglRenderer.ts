@@ -0,0 +1,460 @@
+import { AnyCanvas } from '../types';
+import { MAX_SHARD_SIDES, ShardPool, SpritePool } from './particlePool';
+
+/**
+ * WebGL2 backends for the particle layers. Every particle is one instance of a quad; projection,
+ * shimmer, shape and glow happen in the shaders, so a frame costs one buffer upload and one draw
+ * call instead of a path + fill (+ shadow) per particle.
+ *
+ * The factories return null when WebGL2 (or a shader) isn't available, and callers keep using
+ * their Canvas2D path.
+ */
+
+export interface SpriteView {
+  width: number; // CSS pixels
+  height: number;
+  time: number; // ms, drives the shimmer
+  rotation: { x: number; y: number };
+  fov: number;
+  interpolation: number; // 0-1 between the previous and the latest simulation step
+  background: string; // "r, g, b" the frame is cleared to
+}
+
+export interface ShardView {
+  width: number;
+  height: number;
+  time: number; // ms, drives the glow flicker
+  offset: { x: number; y: number }; // Camera offset in CSS pixels
+  zoom: number;
+  roll: number; // Radians, clockwise around the screen center
+  trail: [number, number, number, number]; // Fade color (r, g, b, a in 0-1) drawn over the previous frame
+  interpolation: number;
+}
+
+export interface SpriteRenderer {
+  /** Additive round sprites ('lighter'), on a cleared background. */
+  draw: (particles: SpritePool, view: SpriteView) => void;
+  dispose: () => void;
+}
+
+export interface ShardRenderer {
+  /** Glowing polygon shards ('screen'), over a faded copy of the previous frame. */
+  draw: (shards: ShardPool, view: ShardView) => void;
+  dispose: () => void;
+}
+
+const QUAD_CORNERS = new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]);
+
+const compileProgram = (gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string) => {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) return null;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      console.warn(gl.getShaderInfoLog(shader));
+      gl.deleteShader(shader);
+      return null;
+    }
+    return shader;
+  };
+
+  const vertex = compile(gl.VERTEX_SHADER, vertexSource);
+  const fragment = compile(gl.FRAGMENT_SHADER, fragmentSource);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) return null;
+
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.warn(gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+};
+
+const getContext = (canvas: AnyCanvas, preserveDrawingBuffer: boolean) => {
+  try {
+    return canvas.getContext('webgl2', { premultipliedAlpha: true, antialias: false, preserveDrawingBuffer });
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Instanced quad geometry: a shared corner buffer plus a per-instance float buffer whose
+ * layout is given as [location, size] pairs.
+ */
+const createInstancedQuad = (gl: WebGL2RenderingContext, layout: [number, number][]) => {
+  const stride = layout.reduce((sum, [, size]) => sum + size, 0);
+  const vao = gl.createVertexArray();
+  const cornerBuffer = gl.createBuffer();
+  const instanceBuffer = gl.createBuffer();
+  gl.bindVertexArray(vao);
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, QUAD_CORNERS, gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+  let offset = 0;
+  for (const [location, size] of layout) {
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride * 4, offset * 4);
+    gl.vertexAttribDivisor(location, 1);
+    offset += size;
+  }
+  gl.bindVertexArray(null);
+
+  let data = new Float32Array(stride * 1024);
+  let capacity = 0;
+
+  return {
+    stride,
+    /** Makes sure the staging array holds `count` instances and returns it. */
+    reserve: (count: number) => {
+      if (data.length < count * stride) data = new Float32Array(Math.ceil(count * 1.5) * stride);
+      return data;
+    },
+    draw: (count: number) => {
+      gl.bindVertexArray(vao);
+      gl.bindBuffer(gl.ARRAY_BUFFER, instanceBuffer);
+      // Grow the GPU buffer only when needed, otherwise just overwrite the used part
+      if (data.length > capacity) {
+        gl.bufferData(gl.ARRAY_BUFFER, data.byteLength, gl.DYNAMIC_DRAW);
+        capacity = data.length;
+      }
+      gl.bufferSubData(gl.ARRAY_BUFFER, 0, data, 0, count * stride);
+      gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+      gl.bindVertexArray(null);
+    },
+    dispose: () => {
+      gl.deleteVertexArray(vao);
+      gl.deleteBuffer(cornerBuffer);
+      gl.deleteBuffer(instanceBuffer);
+    }
+  };
+};
+
+const resizeViewport = (gl: WebGL2RenderingContext) => {
+  gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+};
+
+// --- Sprites (Winter) ---
+
+const SPRITE_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec3 a_position;
+layout(location = 2) in vec4 a_color; // rgb, life
+layout(location = 3) in vec2 a_sizeShimmer;
+
+uniform vec2 u_viewport;
+uniform vec2 u_rotation;
+uniform float u_fov;
+uniform float u_time;
+
+out vec2 v_local;
+out float v_radius;
+out vec4 v_color;
+
+void main() {
+  // Same rotation and perspective as rotate3D in the Canvas2D path
+  float cosY = cos(u_rotation.y), sinY = sin(u_rotation.y);
+  float x1 = a_position.x * cosY - a_position.z * sinY;
+  float z1 = a_position.z * cosY + a_position.x * sinY;
+  float cosX = cos(u_rotation.x), sinX = sin(u_rotation.x);
+  float y2 = a_position.y * cosX - z1 * sinX;
+  float z2 = z1 * cosX + a_position.y * sinX;
+
+  float depth = z2 + u_fov;
+  if (depth <= 0.0) {
+    gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+    return;
+  }
+
+  float scale = u_fov / depth;
+  float radius = max(0.1, a_sizeShimmer.x * scale);
+  float shimmer = cos(u_time * 0.02 + a_sizeShimmer.y * 10.0);
+  v_color = vec4(a_color.rgb, a_color.a * min(1.0, scale) * (0.6 + shimmer * 0.4));
+  v_radius = radius;
+
+  // One pixel of slack for the antialiased edge
+  v_local = a_corner * (max(radius, 0.5) + 1.0);
+  vec2 pixel = vec2(x1, y2) * scale + u_viewport * 0.5 + v_local;
+  gl_Position = vec4(pixel / u_viewport * 2.0 - 1.0, 0.0, 1.0) * vec4(1.0, -1.0, 1.0, 1.0);
+}`;
+
+const SPRITE_FRAGMENT = `#version 300 es
+precision mediump float;
+in vec2 v_local;
+in float v_radius;
+in vec4 v_color;
+out vec4 fragColor;
+
+void main() {
+  // Sub-pixel sprites become a 1px dot with their area as coverage
+  float r = max(v_radius, 0.5);
+  float coverage = clamp(r + 0.5 - length(v_local), 0.0, 1.0) * min(1.0, (v_radius * v_radius) / (r * r));
+  float alpha = clamp(v_color.a, 0.0, 1.0) * coverage;
+  fragColor = vec4(v_color.rgb * alpha, alpha);
+}`;
+
+const parseRgb = (color: string): [number, number, number] => {
+  const [r, g, b] = color.split(',').map(Number);
+  return [r / 255, g / 255, b / 255];
+};
+
+export const createSpriteRenderer = (canvas: AnyCanvas): SpriteRenderer | null => {
+  const gl = getContext(canvas, false);
+  if (!gl) return null;
+  const program = compileProgram(gl, SPRITE_VERTEX, SPRITE_FRAGMENT);
+  if (!program) return null;
+
+  const quad = createInstancedQuad(gl, [[1, 3], [2, 4], [3, 2]]);
+  const uniforms = {
+    viewport: gl.getUniformLocation(program, 'u_viewport'),
+    rotation: gl.getUniformLocation(program, 'u_rotation'),
+    fov: gl.getUniformLocation(program, 'u_fov'),
+    time: gl.getUniformLocation(program, 'u_time')
+  };
+
+  return {
+    draw: (particles, view) => {
+      resizeViewport(gl);
+      const [bgR, bgG, bgB] = parseRgb(view.background);
+      gl.clearColor(bgR, bgG, bgB, 1);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+      const count = particles.count;
+      if (count === 0) return;
+
+      const { x, y, z, prevX, prevY, prevZ, life, size, shimmerOffset } = particles;
+      const color = particles.channels.color;
+      const t = view.interpolation;
+      const data = quad.reserve(count);
+      let o = 0;
+      for (let i = 0; i < count; i++) {
+        data[o++] = prevX[i] + (x[i] - prevX[i]) * t;
+        data[o++] = prevY[i] + (y[i] - prevY[i]) * t;
+        data[o++] = prevZ[i] + (z[i] - prevZ[i]) * t;
+        data[o++] = color[i * 3] / 255; data[o++] = color[i * 3 + 1] / 255; data[o++] = color[i * 3 + 2] / 255;
+        data[o++] = life[i];
+        data[o++] = size[i]; data[o++] = shimmerOffset[i];
+      }
+
+      gl.useProgram(program);
+      gl.uniform2f(uniforms.viewport, view.width, view.height);
+      gl.uniform2f(uniforms.rotation, view.rotation.x, view.rotation.y);
+      gl.uniform1f(uniforms.fov, view.fov);
+      gl.uniform1f(uniforms.time, view.time);
+
+      // 'lighter': plain additive with premultiplied output
+      gl.enable(gl.BLEND);
+      gl.blendFunc(gl.ONE, gl.ONE);
+      quad.draw(count);
+    },
+    dispose: () => {
+      quad.dispose();
+      gl.deleteProgram(program);
+    }
+  };
+};
+
+// --- Shards (Neon) ---
+
+const SHARD_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec4 a_transform; // x, y, z, angle
+layout(location = 2) in vec4 a_radii; // First four vertex radii
+layout(location = 3) in vec4 a_shape; // 5th radius, sides, hue, life
+
+uniform vec2 u_viewport;
+uniform vec2 u_offset;
+uniform float u_zoom;
+uniform float u_roll;
+uniform float u_time;
+
+out vec2 v_local;
+flat out vec4 v_radii;
+flat out vec4 v_shape;
+flat out float v_glow;
+out float v_scale;
+
+float hash(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+void main() {
+  float scale = 800.0 / (800.0 + a_transform.z);
+  if (scale <= 0.0) {
+    gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+    return;
+  }
+
+  // Occasional flare, re-rolled roughly every frame
+  float flicker = hash(vec2(float(gl_InstanceID), floor(u_time / 16.0))) > 0.9 ? 1.5 : 1.0;
+  float glow = 5.0 * scale * flicker; // Px, about shadowBlur / 2
+
+  float maxRadius = max(max(max(a_radii.x, a_radii.y), max(a_radii.z, a_radii.w)), a_shape.x);
+  float extent = maxRadius + (glow * 2.5) / (scale * u_zoom);
+  v_local = a_corner * extent;
+  v_radii = a_radii;
+  v_shape = a_shape;
+  v_glow = glow;
+  v_scale = scale;
+
+  float c = cos(a_transform.w), s = sin(a_transform.w);
+  vec2 rotated = vec2(v_local.x * c - v_local.y * s, v_local.x * s + v_local.y * c);
+  vec2 scene = (a_transform.xy + rotated) * scale * u_zoom;
+  float cr = cos(u_roll), sr = sin(u_roll);
+  vec2 pixel = u_viewport * 0.5 + u_offset + vec2(scene.x * cr - scene.y * sr, scene.x * sr + scene.y * cr);
+  gl_Position = vec4(pixel / u_viewport * 2.0 - 1.0, 0.0, 1.0) * vec4(1.0, -1.0, 1.0, 1.0);
+}`;
+
+const SHARD_FRAGMENT = `#version 300 es
+precision highp float;
+in vec2 v_local;
+flat in vec4 v_radii;
+flat in vec4 v_shape;
+flat in float v_glow;
+in float v_scale;
+uniform float u_zoom;
+out vec4 fragColor;
+
+const float TAU = 6.28318530718;
+
+float radiusAt(int i) {
+  if (i == 0) return v_radii.x;
+  if (i == 1) return v_radii.y;
+  if (i == 2) return v_radii.z;
+  if (i == 3) return v_radii.w;
+  return v_shape.x;
+}
+
+vec3 hsl2rgb(float h, float s, float l) {
+  vec3 k = mod(vec3(0.0, 8.0, 4.0) + h / 30.0, 12.0);
+  float a = s * min(l, 1.0 - l);
+  return l - a * clamp(min(k - 3.0, 9.0 - k), -1.0, 1.0);
+}
+
+void main() {
+  int sides = int(v_shape.y);
+  float sector = TAU / float(sides);
+  float angle = mod(atan(v_local.y, v_local.x), TAU);
+  int k = min(int(floor(angle / sector)), sides - 1);
+  int next = k + 1 == sides ? 0 : k + 1;
+
+  // The shard is star-shaped around its center, so only the edge in this sector matters
+  vec2 a = radiusAt(k) * vec2(cos(float(k) * sector), sin(float(k) * sector));
+  vec2 b = radiusAt(next) * vec2(cos(float(k + 1) * sector), sin(float(k + 1) * sector));
+  vec2 edge = normalize(b - a);
+  float outside = (edge.x * (v_local.y - a.y) - edge.y * (v_local.x - a.x)) * -1.0; // > 0 outside
+  float dist = outside * v_scale * u_zoom; // Px
+
+  float life = v_shape.w;
+  float alpha = life * v_scale;
+  float fill = clamp(0.5 - dist, 0.0, 1.0);
+  float halo = exp(-0.5 * pow(max(dist, 0.0) / max(v_glow, 0.001), 2.0));
+
+  vec3 fillColor = hsl2rgb(v_shape.z, 1.0, 0.6);
+  vec3 glowColor = hsl2rgb(v_shape.z, 1.0, 0.5);
+  vec3 color = mix(glowColor, fillColor, fill);
+  float a_out = clamp(alpha * max(fill, halo * 0.8), 0.0, 1.0);
+  fragColor = vec4(color * a_out, a_out);
+}`;
+
+const TRAIL_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+void main() {
+  gl_Position = vec4(a_corner, 0.0, 1.0);
+}`;
+
+const TRAIL_FRAGMENT = `#version 300 es
+precision mediump float;
+uniform vec4 u_color;
+out vec4 fragColor;
+void main() {
+  fragColor = vec4(u_color.rgb * u_color.a, u_color.a);
+}`;
+
+export const createShardRenderer = (canvas: AnyCanvas): ShardRenderer | null => {
+  // Trails fade the previous frame, so it has to survive compositing
+  const gl = getContext(canvas, true);
+  if (!gl) return null;
+  const program = compileProgram(gl, SHARD_VERTEX, SHARD_FRAGMENT);
+  const trailProgram = compileProgram(gl, TRAIL_VERTEX, TRAIL_FRAGMENT);
+  if (!program || !trailProgram) return null;
+
+  const quad = createInstancedQuad(gl, [[1, 4], [2, 4], [3, 4]]);
+  const uniforms = {
+    viewport: gl.getUniformLocation(program, 'u_viewport'),
+    offset: gl.getUniformLocation(program, 'u_offset'),
+    zoom: gl.getUniformLocation(program, 'u_zoom'),
+    roll: gl.getUniformLocation(program, 'u_roll'),
+    time: gl.getUniformLocation(program, 'u_time'),
+    trailColor: gl.getUniformLocation(trailProgram, 'u_color')
+  };
+
+  // Fullscreen quad for the trail fade (reuses the corner layout, no instance data)
+  const trailVao = gl.createVertexArray();
+  const trailBuffer = gl.createBuffer();
+  gl.bindVertexArray(trailVao);
+  gl.bindBuffer(gl.ARRAY_BUFFER, trailBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, QUAD_CORNERS, gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+  gl.bindVertexArray(null);
+
+  return {
+    draw: (shards, view) => {
+      resizeViewport(gl);
+      gl.enable(gl.BLEND);
+
+      // Trails: source-over fade of the previous frame
+      gl.useProgram(trailProgram);
+      gl.uniform4f(uniforms.trailColor, ...view.trail);
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+      gl.bindVertexArray(trailVao);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+      gl.bindVertexArray(null);
+      const count = shards.count;
+      if (count === 0) return;
+
+      const { x, y, z, prevX, prevY, prevZ, life } = shards;
+      const { hue, angle, prevAngle, sides, radii } = shards.channels;
+      const t = view.interpolation;
+      const data = quad.reserve(count);
+      let o = 0;
+      for (let i = 0; i < count; i++) {
+        data[o++] = prevX[i] + (x[i] - prevX[i]) * t;
+        data[o++] = prevY[i] + (y[i] - prevY[i]) * t;
+        data[o++] = prevZ[i] + (z[i] - prevZ[i]) * t;
+        data[o++] = prevAngle[i] + (angle[i] - prevAngle[i]) * t;
+        for (let k = 0; k < MAX_SHARD_SIDES; k++) data[o++] = k < sides[i] ? radii[i * MAX_SHARD_SIDES + k] : 0;
+        data[o++] = sides[i]; data[o++] = hue[i]; data[o++] = life[i];
+      }
+
+      gl.useProgram(program);
+      gl.uniform2f(uniforms.viewport, view.width, view.height);
+      gl.uniform2f(uniforms.offset, view.offset.x, view.offset.y);
+      gl.uniform1f(uniforms.zoom, view.zoom);
+      gl.uniform1f(uniforms.roll, view.roll);
+      gl.uniform1f(uniforms.time, view.time);
+
+      // 'screen': src + dst - src * dst, with premultiplied src
+      gl.blendFuncSeparate(gl.ONE, gl.ONE_MINUS_SRC_COLOR, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+      quad.draw(count);
+    },
+    dispose: () => {
+      quad.dispose();
+      gl.deleteVertexArray(trailVao);
+      gl.deleteBuffer(trailBuffer);
+      gl.deleteProgram(program);
+      gl.deleteProgram(trailProgram);
+    }
+  };
+};
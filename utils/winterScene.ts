@@ -0,0 +1,415 @@
+import { FrequencyBand, BeatInfo, AudioData, BurstOptions, DrawingContext, WindGust } from '../types';
+import { getBandEnergy, getDominantBand } from './audioUtils';
+import { OverlayPalette } from './overlays';
+import { Random, createRandom, forkRandom } from './random';
+import { CANVAS_SCENE, SceneOptions, SpritePool, SPRITE_CHANNELS, createParticlePool, stepParticles } from './particlePool';
+import { getVisualConfig } from './visualConfig';
+import { SECTION_INTENSITY, SPAWN_ENERGY_FLOOR, WIND_RADIUS, WIND_STRENGTH } from '../constants';
+
+export const WINTER_FOV = 800; // Default perspective distance in px
+
+/** Overlay colors from the live config's band colors. */
+export const getWinterOverlayPalette = (): OverlayPalette => {
+  const { colorBase, colorMidFreq, colorHighFreq } = getVisualConfig();
+  return {
+    ring: colorHighFreq,
+    haloInner: colorBase,
+    haloOuter: colorHighFreq,
+    waveform: colorMidFreq
+  };
+};
+
+/** Orbit view, easing towards the targets set from the page's orbit controls (utils/orbitControls.ts). */
+export interface WinterCamera {
+  rotation: { x: number; y: number }; // Pitch and yaw in radians
+  targetRotation: { x: number; y: number };
+  fov: number; // Perspective distance in px
+  targetFov: number;
+}
+
+/**
+ * The Winter snowflake simulation, independent of any canvas or clock so it can be driven
+ * by the live render loop as well as stepped offline (video export).
+ * Sizes are in CSS pixels of a `width` x `height` viewport; times are in milliseconds.
+ * All randomness comes from a seeded PRNG (see utils/random.ts). What decides a snowflake is
+ * drawn from the main stream, its density-dependent detail from a per-snowflake child, so a
+ * seed spawns the same snowflakes on every backend and pool size.
+ */
+export interface WinterScene {
+  particles: SpritePool;
+  camera: WinterCamera;
+  /** Spawns snowflakes for one frame of analysis, based on onsets and the beat grid. */
+  react: (analysis: AudioData, beat: BeatInfo, time: number, width: number, height: number) => void;
+  /** Advances the camera and particles by one fixed simulation step (see utils/particlePool.ts). */
+  step: (globalEnergy: number) => void;
+  /**
+   * Clears to the background and draws the particles, `interpolation` (0-1) of the way from the
+   * previous step to the latest one. Leaves the context in 'lighter' mode.
+   */
+  draw: (ctx: DrawingContext, width: number, height: number, time: number, interpolation?: number) => void;
+  /**
+   * Spawns a snowflake right away: at `options.at` (CSS px on screen, through the camera)
+   * or somewhere random.
+   */
+  burst: (time: number, width: number, height: number, options?: BurstOptions) => void;
+  /** Pushes the particles near each stroke segment along it, as seen on screen. */
+  wind: (gusts: WindGust[], width: number, height: number) => void;
+  clear: () => void;
+  /** Restarts the spawn randomness; with the same input, the same seed replays the same show. */
+  reseed: (seed: number) => void;
+}
+
+const BAND_COLOR_KEYS = { bass: 'colorBase', mid: 'colorMidFreq', treble: 'colorHighFreq' } as const;
+
+const getBandColor = (band: FrequencyBand) => getVisualConfig()[BAND_COLOR_KEYS[band]].split(',').map(Number);
+
+// Helper to rotate a point in 3D
+const rotate3D = (x: number, y: number, z: number, angleX: number, angleY: number) => {
+  const cosY = Math.cos(angleY);
+  const sinY = Math.sin(angleY);
+  const x1 = x * cosY - z * sinY;
+  const z1 = z * cosY + x * sinY;
+
+  const cosX = Math.cos(angleX);
+  const sinX = Math.sin(angleX);
+  const y2 = y * cosX - z1 * sinX;
+  const z2 = z1 * cosX + y * sinX;
+
+  return { x: x1, y: y2, z: z2 };
+};
+
+// Inverse of rotate3D (X first, then Y, by the negated angles)
+const unrotate3D = (x: number, y: number, z: number, angleX: number, angleY: number) => {
+  const cosX = Math.cos(-angleX);
+  const sinX = Math.sin(-angleX);
+  const y1 = y * cosX - z * sinX;
+  const z1 = z * cosX + y * sinX;
+
+  const cosY = Math.cos(-angleY);
+  const sinY = Math.sin(-angleY);
+  return { x: x * cosY - z1 * sinY, y: y1, z: z1 * cosY + x * sinY };
+};
+
+// --- SNOWFLAKE GEOMETRY TYPES ---
+interface Rib {
+  pos: number;    // Position along the main arm (0 to 1)
+  length: number; // Length of the rib
+  angle: number;  // Angle relative to main arm (usually 60 deg)
+  subRibs?: number; // Number of tiny spikes on this rib
+}
+
+interface SnowflakeBlueprint {
+  armLength: number;
+  centerPlateSize: number; // 0 if no plate
+  ribs: Rib[];
+  tipShape: 'point' | 'fork' | 'star';
+}
+
+export const createWinterScene = (seed = 0, options: SceneOptions = CANVAS_SCENE): WinterScene => {
+  const random = createRandom(seed);
+  const { maxParticles, density } = options;
+  const densitySizeScale = 1 / Math.sqrt(density); // Same total sprite area as at density 1
+  const particles = createParticlePool(maxParticles, SPRITE_CHANNELS);
+  const camera: WinterCamera = { rotation: { x: 0, y: 0 }, targetRotation: { x: 0, y: 0 }, fov: WINTER_FOV, targetFov: WINTER_FOV };
+  let lastSpawnTime = -Infinity;
+
+  const addParticle = (detail: Random, x: number, y: number, z: number, vx: number, vy: number, vz: number, color: number[], sizeMult = 1.0) => {
+    // Drawn even when the pool is full, so the snowflake's remaining particles come out the same
+    const sizeRoll = detail.next();
+    const decayRoll = detail.next();
+    const shimmerRoll = detail.next();
+    const i = particles.add(x, y, z, vx, vy, vz);
+    if (i < 0) return;
+
+    const { sizeVariation, baseParticleSize, fadeSpeedBase, fadeSpeedVar } = getVisualConfig();
+    // Scale particle size based on the snowflake size so big snowflakes have chunky particles
+    particles.size[i] = ((sizeRoll * sizeVariation * 0.6) + baseParticleSize) * sizeMult * densitySizeScale;
+    particles.decayRate[i] = fadeSpeedBase + (decayRoll * fadeSpeedVar);
+    particles.shimmerOffset[i] = shimmerRoll * Math.PI * 2;
+    particles.channels.color.set(color, i * 3);
+  };
+
+  // `pan` (-1 to 1) is where the band sits in the stereo field, snowflakes drift to that side
+  const spawnSnowflake = (type: FrequencyBand, intensity: number, width: number, height: number, at?: { x: number; y: number; z: number }, pan = 0) => {
+    const config = getVisualConfig();
+    const color = getBandColor(type);
+
+    const spreadX = width * 0.7;
+    const spreadY = height * 0.5;
+    
+    const startX = at ? at.x : pan * spreadX / 2 + (random.next() - 0.5) * spreadX * (1 - Math.abs(pan));
+    const startY = at ? at.y : (random.next() - 0.5) * spreadY;
+    const startZ = at ? at.z : (random.next() - 0.5) * 300; 
+
+    // --- SIZE VARIATION LOGIC ---
+    // Randomly scale between 0.3x (tiny) and 2.5x (huge)
+    // Intensity also slightly boosts size
+    const randomScale = 0.3 + random.next() * 2.2; 
+    const scale = randomScale * (0.8 + intensity * 0.4);
+
+    // Adjust speed: Bigger snowflakes expand slightly slower relative to their size for grandeur
+    // but absolute speed is still higher because they cover more distance.
+    const speedBase = config.energyMultiplier * (0.3 + intensity * 0.5); 
+    
+    // --- 1. DESIGN THE SNOWFLAKE (BLUEPRINT) ---
+    // We keep the blueprint logic normalized (around 1.0 size) and apply scale later
+    const blueprint: SnowflakeBlueprint = {
+      armLength: 1.0,
+      centerPlateSize: random.next() < 0.3 ? 0.15 + random.next() * 0.1 : 0, 
+      ribs: [],
+      tipShape: random.next() > 0.5 ? 'point' : (random.next() > 0.5 ? 'fork' : 'star')
+    };
+
+    // Generate Ribs (Branches)
+    const numRibs = Math.floor(random.next() * 4) + 2; 
+    for (let r = 0; r < numRibs; r++) {
+      const pos = 0.2 + (r / numRibs) * 0.6; 
+      const maxLen = (1 - pos) * 0.6; 
+      const len = maxLen * (0.4 + random.next() * 0.6);
+      
+      blueprint.ribs.push({
+        pos,
+        length: len,
+        angle: Math.PI / 3, 
+        subRibs: len > 0.3 ? Math.floor(random.next() * 3) : 0 
+      });
+    }
+
+    // Each snowflake is tilted its own way, so the orbit camera sees them at different angles
+    const tiltX = random.next() * Math.PI;
+    const tiltY = random.next() * Math.PI * 2;
+
+    // Point jitter, thinning and per-particle looks vary with density, so they come from this snowflake's own stream
+    const detail = forkRandom(random);
+
+    // --- 2. BUILD THE PARTICLES FROM BLUEPRINT ---
+    const arms = 6;
+    // Calculate particles: Big snowflakes get more particles to look full
+    const particleBudgetBase = config.minParticlesPerFirework + (config.maxParticlesPerFirework - config.minParticlesPerFirework) * intensity;
+    const totalParticles = particleBudgetBase * Math.sqrt(scale) * density; // Scale particle count by size
+    
+    const points: {x: number, y: number}[] = [];
+
+    // Helper to add a line segment to points
+    const addLine = (x1: number, y1: number, x2: number, y2: number, density: number) => {
+      const dist = Math.hypot(x2 - x1, y2 - y1);
+      const count = Math.max(3, Math.floor(dist * 100 * density * options.density)); 
+      for(let i=0; i<=count; i++) {
+        const t = i/count;
+        const jitter = 0.015;
+        points.push({
+          x: x1 + (x2 - x1) * t + (detail.next() - 0.5) * jitter,
+          y: y1 + (y2 - y1) * t + (detail.next() - 0.5) * jitter
+        });
+      }
+    };
+
+    // A. Build Center Plate
+    if (blueprint.centerPlateSize > 0) {
+      const s = blueprint.centerPlateSize;
+      const plateAngle = Math.PI / 6; 
+      addLine(
+        s * Math.cos(plateAngle), s * Math.sin(plateAngle),
+        s * Math.cos(-plateAngle), s * Math.sin(-plateAngle),
+        2.0
+      );
+    }
+
+    // B. Build Main Spine
+    addLine(0, 0, blueprint.armLength, 0, 1.5);
+
+    // C. Build Ribs
+    blueprint.ribs.forEach(rib => {
+      const rx = rib.pos + rib.length * Math.cos(rib.angle);
+      const ry = rib.length * Math.sin(rib.angle);
+      addLine(rib.pos, 0, rx, ry, 1.2);
+      
+      if (rib.subRibs && rib.subRibs > 0) {
+         for(let sr=1; sr<=rib.subRibs; sr++) {
+            const t = sr / (rib.subRibs + 1);
+            const sx = rib.pos + (rx - rib.pos) * t;
+            const sy = 0 + (ry - 0) * t;
+            const subLen = rib.length * 0.3;
+            addLine(sx, sy, sx + subLen, sy, 1.0);
+         }
+      }
+
+      const lx = rib.pos + rib.length * Math.cos(-rib.angle);
+      const ly = rib.length * Math.sin(-rib.angle);
+      addLine(rib.pos, 0, lx, ly, 1.2);
+
+      if (rib.subRibs && rib.subRibs > 0) {
+         for(let sr=1; sr<=rib.subRibs; sr++) {
+            const t = sr / (rib.subRibs + 1);
+            const sx = rib.pos + (lx - rib.pos) * t;
+            const sy = 0 + (ly - 0) * t;
+            const subLen = rib.length * 0.3;
+            addLine(sx, sy, sx + subLen, sy, 1.0);
+         }
+      }
+    });
+
+    // D. Build Tip
+    if (blueprint.tipShape === 'fork') {
+      const tipLen = 0.15;
+      const tipAngle = Math.PI / 4;
+      addLine(blueprint.armLength, 0, blueprint.armLength + tipLen * Math.cos(tipAngle), tipLen * Math.sin(tipAngle), 1.5);
+      addLine(blueprint.armLength, 0, blueprint.armLength + tipLen * Math.cos(-tipAngle), tipLen * Math.sin(-tipAngle), 1.5);
+    }
+
+    // --- 3. INSTANTIATE & ROTATE ---
+    const totalPointsNeeded = points.length * arms;
+    const skipRatio = totalPointsNeeded > totalParticles ? 1 - (totalParticles / totalPointsNeeded) : 0;
+
+    for (let i = 0; i < arms; i++) {
+      const armRotation = (i / arms) * Math.PI * 2;
+      const cosA = Math.cos(armRotation);
+      const sinA = Math.sin(armRotation);
+
+      for (const pt of points) {
+        if (skipRatio > 0 && detail.next() < skipRatio) continue;
+
+        // Apply Rotation AND Scale here
+        // This ensures the shape geometry is scaled up/down
+        const flat = rotate3D((pt.x * cosA - pt.y * sinA) * scale, (pt.x * sinA + pt.y * cosA) * scale, 0, tiltX, tiltY);
+
+        const vx = flat.x * speedBase;
+        const vy = flat.y * speedBase;
+        const vz = flat.z * speedBase; 
+
+        // Pass scale to addParticle to adjust particle size as well
+        addParticle(detail, startX, startY, startZ, vx, vy, vz, color, scale);
+      }
+    }
+  };
+
+  const react = (analysis: AudioData, beat: BeatInfo, time: number, width: number, height: number) => {
+    const timeSinceLast = time - lastSpawnTime;
+    const onset = beat.onsets[0];
+    const sectionBoost = beat.section ? SECTION_INTENSITY[beat.section] : 1;
+
+    // Beat-map beats come from the unprocessed track; with post analysis a filter may have removed their band
+    const isAudible = (candidate: FrequencyBand) => getBandEnergy(analysis, candidate) >= SPAWN_ENERGY_FLOOR;
+
+    let band: FrequencyBand | null = null;
+    let intensity = 0;
+    if (onset) {
+      if (isAudible(onset.band)) {
+        band = onset.band;
+        intensity = Math.min((getBandEnergy(analysis, onset.band) / 255) * (0.85 + onset.strength * 0.3) * sectionBoost, 1);
+      }
+    } else if (beat.isBeat && timeSinceLast > 150) {
+      // Soft beats without a clear onset still get a snowflake on the tempo grid
+      const dominant = getDominantBand(analysis);
+      if (isAudible(dominant)) {
+        band = dominant;
+        intensity = Math.min(0.5 * sectionBoost, 1);
+      }
+    } else if (beat.bpm === 0 && timeSinceLast > 600 && analysis.energy > 10) {
+      band = getDominantBand(analysis);
+      intensity = 0.4;
+    }
+
+    if (band) {
+      lastSpawnTime = time;
+      spawnSnowflake(band, intensity, width, height, undefined, analysis.stereo?.balance[band]);
+    }
+  };
+
+  const draw = (ctx: DrawingContext, width: number, height: number, time: number, interpolation = 1) => {
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.fillStyle = `rgb(${getVisualConfig().colorBackground})`; 
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.globalCompositeOperation = 'lighter';
+
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const { fov, rotation } = camera;
+    const { x, y, z, prevX, prevY, prevZ, life, size, shimmerOffset } = particles;
+    const color = particles.channels.color;
+
+    for (let i = 0; i < particles.count; i++) {
+      const rotated = rotate3D(
+        prevX[i] + (x[i] - prevX[i]) * interpolation,
+        prevY[i] + (y[i] - prevY[i]) * interpolation,
+        prevZ[i] + (z[i] - prevZ[i]) * interpolation,
+        rotation.x,
+        rotation.y
+      );
+      const depth = rotated.z + fov; 
+      if (depth <= 0) continue;
+
+      const scale = fov / depth;
+      const x2d = rotated.x * scale + centerX;
+      const y2d = rotated.y * scale + centerY;
+      
+      const size2d = Math.max(0.1, size[i] * scale);
+      const opacity = life[i] * Math.min(1, scale); 
+
+      const shimmer = Math.cos(time * 0.02 + shimmerOffset[i] * 10); 
+      const finalOpacity = opacity * (0.6 + shimmer * 0.4);
+
+      ctx.fillStyle = `rgba(${color[i * 3]}, ${color[i * 3 + 1]}, ${color[i * 3 + 2]}, ${finalOpacity})`;
+      ctx.beginPath();
+      ctx.arc(x2d, y2d, size2d, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+
+  const wind = (gusts: WindGust[], width: number, height: number) => {
+    const { x, y, z, vx, vy, vz } = particles;
+    const { fov, rotation } = camera;
+    for (let i = 0; i < particles.count; i++) {
+      const rotated = rotate3D(x[i], y[i], z[i], rotation.x, rotation.y);
+      const depth = rotated.z + fov;
+      if (depth <= 0) continue;
+      const scale = fov / depth;
+      const screenX = rotated.x * scale + width / 2;
+      const screenY = rotated.y * scale + height / 2;
+
+      let pushX = 0;
+      let pushY = 0;
+      for (const gust of gusts) {
+        const falloff = 1 - Math.hypot(screenX - gust.x, screenY - gust.y) / WIND_RADIUS;
+        if (falloff <= 0) continue;
+        pushX += gust.dx * falloff * WIND_STRENGTH;
+        pushY += gust.dy * falloff * WIND_STRENGTH;
+      }
+      if (pushX === 0 && pushY === 0) continue;
+      // A screen-space push, back into the sky's coordinates at the particle's depth
+      const push = unrotate3D(pushX / scale, pushY / scale, 0, rotation.x, rotation.y);
+      vx[i] += push.x;
+      vy[i] += push.y;
+      vz[i] += push.z;
+    }
+  };
+
+  return {
+    particles,
+    camera,
+    react,
+    step: (globalEnergy: number) => {
+      camera.rotation.x += (camera.targetRotation.x - camera.rotation.x) * 0.2;
+      camera.rotation.y += (camera.targetRotation.y - camera.rotation.y) * 0.2;
+      camera.fov += (camera.targetFov - camera.fov) * 0.2;
+      stepParticles(particles, globalEnergy);
+    },
+    draw,
+    burst: (_time: number, width: number, height: number, { at, band, intensity = 1 }: BurstOptions = {}) => {
+      const bands: FrequencyBand[] = ['bass', 'mid', 'treble'];
+      // Screen offsets from the center are view coordinates at depth 0 (where perspective scale is 1),
+      // turned back into the sky's own coordinates
+      const center = at
+        ? unrotate3D(at.x - width / 2, at.y - height / 2, 0, camera.rotation.x, camera.rotation.y)
+        : undefined;
+      spawnSnowflake(band ?? bands[Math.floor(random.next() * bands.length)], intensity, width, height, center);
+    },
+    wind,
+    clear: () => {
+      particles.clear();
+      lastSpawnTime = -Infinity;
+    },
+    reseed: (newSeed: number) => random.reset(newSeed)
+  };
+};
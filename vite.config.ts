@@ -1,7 +1,69 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// MediaPipe's runtime (SIMD and fallback builds) and the gesture model, served from our own origin
+const MEDIAPIPE_WASM_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision/wasm');
+const MEDIAPIPE_WASM_FILES = [
+  'vision_wasm_internal.js',
+  'vision_wasm_internal.wasm',
+  'vision_wasm_nosimd_internal.js',
+  'vision_wasm_nosimd_internal.wasm'
+];
+const GESTURE_MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task';
+const GESTURE_MODEL_CACHE = path.resolve(__dirname, 'node_modules/.cache/mediapipe/gesture_recognizer.task');
+
+const CONTENT_TYPES: Record<string, string> = { '.js': 'text/javascript', '.wasm': 'application/wasm' };
+
+/**
+ * Bundles the MediaPipe assets gesture mode needs into `mediapipe/` (served by the dev server,
+ * emitted into the build), so it works at venues without internet. The model is downloaded once
+ * at build time and cached; GESTURE_MODEL_PATH points at a local copy instead.
+ */
+const mediapipeAssets = (modelPath: string | undefined): Plugin => {
+  const resolveModel = async () => {
+    if (modelPath) return path.resolve(modelPath);
+    if (!fs.existsSync(GESTURE_MODEL_CACHE)) {
+      const response = await fetch(GESTURE_MODEL_URL);
+      if (!response.ok) throw new Error(`HTTP ${response.status} for ${GESTURE_MODEL_URL}`);
+      fs.mkdirSync(path.dirname(GESTURE_MODEL_CACHE), { recursive: true });
+      fs.writeFileSync(GESTURE_MODEL_CACHE, Buffer.from(await response.arrayBuffer()));
+    }
+    return GESTURE_MODEL_CACHE;
+  };
+
+  const collectAssets = async (warn: (message: string) => void) => {
+    const assets: Record<string, string> = {};
+    for (const file of MEDIAPIPE_WASM_FILES) assets[`wasm/${file}`] = path.join(MEDIAPIPE_WASM_DIR, file);
+    try {
+      assets['gesture_recognizer.task'] = await resolveModel();
+    } catch (error) {
+      warn(`Gesture model not bundled (${error instanceof Error ? error.message : error}), gesture mode will report a model load failure`);
+    }
+    return assets;
+  };
+
+  return {
+    name: 'mediapipe-assets',
+    configureServer: async (server) => {
+      const assets = await collectAssets(message => server.config.logger.warn(message));
+      server.middlewares.use('/mediapipe', (req, res, next) => {
+        const file = assets[(req.url ?? '').split('?')[0].replace(/^\//, '')];
+        if (!file) return next();
+        res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream');
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    async generateBundle() {
+      const assets = await collectAssets(message => this.warn(message));
+      for (const [name, file] of Object.entries(assets)) {
+        this.emitFile({ type: 'asset', fileName: `mediapipe/${name}`, source: fs.readFileSync(file) });
+      }
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +71,14 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeAssets(env.GESTURE_MODEL_PATH)],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Where the MediaPipe WASM fileset and model are loaded from (e.g. a venue's local server)
+        'process.env.MEDIAPIPE_ASSET_BASE': JSON.stringify(env.MEDIAPIPE_ASSET_BASE || '/mediapipe/'),
+        // The OSC bridge (`npm run bridge`) remote control connects to
+        'process.env.REMOTE_BRIDGE_URL': JSON.stringify(env.REMOTE_BRIDGE_URL || 'ws://localhost:8787')
       },
       resolve: {
         alias: {